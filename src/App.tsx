@@ -1,12 +1,14 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import { blink } from './blink/client'
 import { MapMakerDashboard } from './components/MapMakerDashboard'
+import { MyMapsWorkspace } from './components/MyMapsWorkspace'
 import { Loader2 } from 'lucide-react'
 import { Toaster } from 'sonner'
 
 function App() {
   const [user, setUser] = useState(null)
   const [loading, setLoading] = useState(true)
+  const [activeMapId, setActiveMapId] = useState<string | null>(null)
 
   useEffect(() => {
     const unsubscribe = blink.auth.onAuthStateChanged((state) => {
@@ -16,6 +18,8 @@ function App() {
     return unsubscribe
   }, [])
 
+  const closeMap = useCallback(() => setActiveMapId(null), [])
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -40,7 +44,16 @@ function App() {
 
   return (
     <div className="min-h-screen bg-background">
-      <MapMakerDashboard user={user} />
+      {activeMapId ? (
+        <MapMakerDashboard
+          key={activeMapId}
+          user={user}
+          mapId={activeMapId}
+          onBackToMaps={closeMap}
+        />
+      ) : (
+        <MyMapsWorkspace user={user} onOpenMap={setActiveMapId} />
+      )}
       <Toaster />
     </div>
   )
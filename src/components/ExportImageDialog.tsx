@@ -0,0 +1,180 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { Slider } from './ui/slider'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { ImageDown, Loader2, AlertTriangle } from 'lucide-react'
+import { getImageSize, isImageSizeSupported, type ImageExportOptions } from '../lib/export-image'
+import type { MapSettings } from '../types/map'
+
+interface ExportImageDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: MapSettings
+  onExport: (options: ImageExportOptions) => Promise<void>
+}
+
+const scales = [0.5, 1, 2, 3, 4, 6, 8]
+const dpis = [72, 150, 300, 600]
+
+export function ExportImageDialog({ open, onOpenChange, settings, onExport }: ExportImageDialogProps) {
+  const [options, setOptions] = useState<ImageExportOptions>({
+    format: 'image/png',
+    scale: 2,
+    dpi: 300,
+    quality: 0.92,
+    includeGrid: settings.showGrid,
+    includeLabels: true,
+    includeHidden: false
+  })
+  const [isExporting, setIsExporting] = useState(false)
+  // The grid follows the map as it is when the dialog opens; the rest is kept
+  const [wasOpen, setWasOpen] = useState(false)
+  if (open !== wasOpen) {
+    setWasOpen(open)
+    if (open) setOptions(prev => ({ ...prev, includeGrid: settings.showGrid }))
+  }
+
+  const size = getImageSize(settings, options.scale)
+  const isSupported = isImageSizeSupported(settings, options.scale)
+  const printWidth = (size.width / options.dpi).toFixed(1)
+  const printHeight = (size.height / options.dpi).toFixed(1)
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      await onExport(options)
+      onOpenChange(false)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isExporting && onOpenChange(nextOpen)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Image</DialogTitle>
+          <DialogDescription>Render the full map with terrain, grid, icons and labels</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label className="text-xs">Format</Label>
+              <Select
+                value={options.format}
+                onValueChange={(value: any) => setOptions(prev => ({ ...prev, format: value }))}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="image/png">PNG</SelectItem>
+                  <SelectItem value="image/jpeg">JPEG</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Scale</Label>
+              <Select
+                value={String(options.scale)}
+                onValueChange={(value) => setOptions(prev => ({ ...prev, scale: Number(value) }))}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {scales.map(scale => (
+                    <SelectItem key={scale} value={String(scale)}>{scale}x</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">DPI</Label>
+              <Select
+                value={String(options.dpi)}
+                onValueChange={(value) => setOptions(prev => ({ ...prev, dpi: Number(value) }))}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {dpis.map(dpi => (
+                    <SelectItem key={dpi} value={String(dpi)}>{dpi}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="text-xs text-muted-foreground">
+            {size.width} x {size.height} px • {printWidth} x {printHeight} in at {options.dpi} DPI
+          </div>
+
+          {options.format === 'image/jpeg' && (
+            <div>
+              <Label className="text-xs">Quality: {Math.round(options.quality * 100)}%</Label>
+              <Slider
+                value={[options.quality * 100]}
+                onValueChange={([value]) => setOptions(prev => ({ ...prev, quality: value / 100 }))}
+                min={50}
+                max={100}
+                step={1}
+                className="mt-2"
+              />
+            </div>
+          )}
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Include grid</Label>
+              <Switch
+                checked={options.includeGrid}
+                onCheckedChange={(checked) => setOptions(prev => ({ ...prev, includeGrid: checked }))}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Include labels</Label>
+              <Switch
+                checked={options.includeLabels}
+                onCheckedChange={(checked) => setOptions(prev => ({ ...prev, includeLabels: checked }))}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Include hidden locations</Label>
+              <Switch
+                checked={options.includeHidden}
+                onCheckedChange={(checked) => setOptions(prev => ({ ...prev, includeHidden: checked }))}
+              />
+            </div>
+          </div>
+
+          {!isSupported && (
+            <div className="flex items-center gap-2 text-xs text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              This size exceeds what browsers can render. Choose a smaller scale.
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting || !isSupported}>
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <ImageDown className="h-4 w-4 mr-2" />
+            )}
+            {isExporting ? 'Rendering...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
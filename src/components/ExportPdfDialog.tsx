@@ -0,0 +1,184 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Switch } from './ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { FileText, Loader2 } from 'lucide-react'
+import { getAtlasLayout, type PdfAtlasOptions } from '../lib/export-pdf'
+import type { MapSettings } from '../types/map'
+
+interface ExportPdfDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  settings: MapSettings
+  onExport: (options: PdfAtlasOptions) => Promise<void>
+}
+
+const pageCounts = [1, 2, 3, 4, 5, 6]
+const overlaps = [0, 5, 10, 15, 20]
+
+export function ExportPdfDialog({ open, onOpenChange, settings, onExport }: ExportPdfDialogProps) {
+  const [options, setOptions] = useState<PdfAtlasOptions>({
+    paper: 'a4',
+    orientation: settings.width >= settings.height ? 'landscape' : 'portrait',
+    pagesAcross: 2,
+    overlap: 10,
+    cropMarks: true,
+    includeGrid: settings.showGrid,
+    includeLegend: true,
+    includeGazetteer: true
+  })
+  const [isExporting, setIsExporting] = useState(false)
+  // Orientation and grid follow the map as it is when the dialog opens; the rest is kept
+  const [wasOpen, setWasOpen] = useState(false)
+  if (open !== wasOpen) {
+    setWasOpen(open)
+    if (open) {
+      setOptions(prev => ({
+        ...prev,
+        orientation: settings.width >= settings.height ? 'landscape' : 'portrait',
+        includeGrid: settings.showGrid
+      }))
+    }
+  }
+
+  const layout = getAtlasLayout(settings, options)
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      await onExport(options)
+      onOpenChange(false)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !isExporting && onOpenChange(nextOpen)}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export PDF Atlas</DialogTitle>
+          <DialogDescription>Print the map across several pages, with a legend and gazetteer</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label className="text-xs">Paper</Label>
+              <Select
+                value={options.paper}
+                onValueChange={(value: any) => setOptions(prev => ({ ...prev, paper: value }))}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="a4">A4</SelectItem>
+                  <SelectItem value="letter">Letter</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Orientation</Label>
+              <Select
+                value={options.orientation}
+                onValueChange={(value: any) => setOptions(prev => ({ ...prev, orientation: value }))}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="portrait">Portrait</SelectItem>
+                  <SelectItem value="landscape">Landscape</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Pages across</Label>
+              <Select
+                value={String(options.pagesAcross)}
+                onValueChange={(value) => setOptions(prev => ({ ...prev, pagesAcross: Number(value) }))}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {pageCounts.map(count => (
+                    <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label className="text-xs">Overlap</Label>
+              <Select
+                value={String(options.overlap)}
+                onValueChange={(value) => setOptions(prev => ({ ...prev, overlap: Number(value) }))}
+              >
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {overlaps.map(overlap => (
+                    <SelectItem key={overlap} value={String(overlap)}>{overlap} mm</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="text-xs text-muted-foreground">
+            {layout.columns} x {layout.rows} map pages • printed at {(layout.printedWidth / 10).toFixed(1)} x {(layout.printedHeight / 10).toFixed(1)} cm
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Crop marks</Label>
+              <Switch
+                checked={options.cropMarks}
+                onCheckedChange={(checked) => setOptions(prev => ({ ...prev, cropMarks: checked }))}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Include grid</Label>
+              <Switch
+                checked={options.includeGrid}
+                onCheckedChange={(checked) => setOptions(prev => ({ ...prev, includeGrid: checked }))}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Legend page</Label>
+              <Switch
+                checked={options.includeLegend}
+                onCheckedChange={(checked) => setOptions(prev => ({ ...prev, includeLegend: checked }))}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label className="text-xs">Gazetteer</Label>
+              <Switch
+                checked={options.includeGazetteer}
+                onCheckedChange={(checked) => setOptions(prev => ({ ...prev, includeGazetteer: checked }))}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isExporting}>
+            Cancel
+          </Button>
+          <Button onClick={handleExport} disabled={isExporting}>
+            {isExporting ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <FileText className="h-4 w-4 mr-2" />
+            )}
+            {isExporting ? 'Building PDF...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,263 @@
+import { useState, useRef } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { ScrollArea } from './ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Upload, AlertTriangle, MapPin, Globe, RotateCcw, Scan } from 'lucide-react'
+import {
+  defaultGeoBounds,
+  featuresToLocations,
+  fitGeoBounds,
+  isValidGeoBounds,
+  parseGeoJson,
+  type ParseGeoJsonResult
+} from '../lib/geojson'
+import { locationTypes } from '../lib/map-constants'
+import type { GeoBounds, MapLocation, MapSettings } from '../types/map'
+
+interface GeoJsonDialogProps {
+  mode: 'import' | 'export' | null
+  onClose: () => void
+  settings: MapSettings
+  // Both receive the bounds used so the map can offer them next time
+  onExport: (bounds: GeoBounds) => void
+  onImport: (locations: MapLocation[], bounds: GeoBounds) => void
+}
+
+const boundFields: { key: keyof GeoBounds; label: string }[] = [
+  { key: 'north', label: 'North (lat)' },
+  { key: 'south', label: 'South (lat)' },
+  { key: 'west', label: 'West (long)' },
+  { key: 'east', label: 'East (long)' }
+]
+
+const toBoundsText = (bounds: GeoBounds): Record<keyof GeoBounds, string> => ({
+  west: String(bounds.west),
+  south: String(bounds.south),
+  east: String(bounds.east),
+  north: String(bounds.north)
+})
+
+export function GeoJsonDialog({ mode, onClose, settings, onExport, onImport }: GeoJsonDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Bounds are kept as text while editing so partial numbers like "-" can be typed
+  const [boundsText, setBoundsText] = useState(() => toBoundsText(defaultGeoBounds(settings)))
+  // Each time the dialog opens, start from the bounds last used with this map, or defaults
+  // matching its current shape
+  const [openedMode, setOpenedMode] = useState<GeoJsonDialogProps['mode']>(null)
+  if (mode !== openedMode) {
+    setOpenedMode(mode)
+    if (mode) setBoundsText(toBoundsText(settings.geoBounds ?? defaultGeoBounds(settings)))
+  }
+  const [fileName, setFileName] = useState('')
+  const [result, setResult] = useState<ParseGeoJsonResult | null>(null)
+  const [defaultType, setDefaultType] = useState<MapLocation['type']>('landmark')
+
+  const bounds: GeoBounds = {
+    west: parseFloat(boundsText.west),
+    south: parseFloat(boundsText.south),
+    east: parseFloat(boundsText.east),
+    north: parseFloat(boundsText.north)
+  }
+  const boundsValid = isValidGeoBounds(bounds)
+
+  const preview = result?.success && boundsValid
+    ? featuresToLocations(result.features, settings, bounds, defaultType)
+    : null
+
+  const setBounds = (next: GeoBounds) => setBoundsText(toBoundsText(next))
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) return
+    setFileName('')
+    setResult(null)
+    if (fileInputRef.current) fileInputRef.current.value = ''
+    onClose()
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const parsed = parseGeoJson(await file.text())
+    setFileName(file.name)
+    setResult(parsed)
+    // Files exported from here carry their projection; anything else is fitted to its points
+    if (parsed.success) setBounds(parsed.bounds ?? fitGeoBounds(parsed.features, settings))
+  }
+
+  const handleConfirm = () => {
+    if (!boundsValid) return
+    if (mode === 'export') {
+      onExport(bounds)
+    } else if (preview && preview.locations.length > 0) {
+      onImport(preview.locations, bounds)
+    } else {
+      return
+    }
+    handleOpenChange(false)
+  }
+
+  return (
+    <Dialog open={mode !== null} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{mode === 'export' ? 'Export GeoJSON' : 'Import GeoJSON'}</DialogTitle>
+          <DialogDescription>
+            {mode === 'export'
+              ? 'Locations become Point features placed within the bounds below'
+              : 'Point features within the bounds below become locations'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {mode === 'import' && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".geojson,.json,application/geo+json,application/json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="w-full">
+              <Upload className="h-4 w-4 mr-2" />
+              {fileName || 'Choose file...'}
+            </Button>
+          </>
+        )}
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Map bounds (degrees)</Label>
+            <div className="flex gap-1">
+              {mode === 'import' && result?.success && (
+                <Button
+                  onClick={() => setBounds(fitGeoBounds(result.features, settings))}
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 px-2 text-xs"
+                >
+                  <Scan className="h-3 w-3 mr-1" />
+                  Fit to points
+                </Button>
+              )}
+              <Button
+                onClick={() => setBounds(defaultGeoBounds(settings))}
+                size="sm"
+                variant="ghost"
+                className="h-6 px-2 text-xs"
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Reset
+              </Button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {boundFields.map(({ key, label }) => (
+              <div key={key}>
+                <Label className="text-xs text-muted-foreground">{label}</Label>
+                <Input
+                  type="number"
+                  step="any"
+                  value={boundsText[key]}
+                  onChange={(e) => setBoundsText(prev => ({ ...prev, [key]: e.target.value }))}
+                  className="h-8"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Top-left pixel (0, 0) maps to the north-west corner; ({settings.width}, {settings.height}) to the south-east
+          </div>
+          {!boundsValid && (
+            <div className="flex items-center gap-2 text-xs text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              East must exceed west and north must exceed south, within ±180 / ±90
+            </div>
+          )}
+        </div>
+
+        {mode === 'import' && result && !result.success && (
+          <div className="rounded-lg border border-destructive/50 p-3 space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              {result.errors[0]}
+            </div>
+            {result.errors.length > 1 && (
+              <ScrollArea className="max-h-32">
+                <ul className="space-y-1 text-xs text-muted-foreground">
+                  {result.errors.slice(1).map((error, index) => (
+                    <li key={index}>{error}</li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        {mode === 'import' && result?.success && (
+          <div className="space-y-3">
+            <div>
+              <Label className="text-xs">Type for features without a known type</Label>
+              <Select value={defaultType} onValueChange={(value) => setDefaultType(value as MapLocation['type'])}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {locationTypes.map(type => (
+                    <SelectItem key={type.value} value={type.value}>
+                      <div className="flex items-center gap-2">
+                        <type.icon className="h-3 w-3" />
+                        {type.label}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {result.warnings.length > 0 && (
+              <ScrollArea className="max-h-24 rounded-lg border p-2">
+                <ul className="space-y-1 text-xs text-muted-foreground">
+                  {result.warnings.map((warning, index) => (
+                    <li key={index}>{warning}</li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            )}
+
+            {preview && (
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="text-xs">
+                  <MapPin className="h-3 w-3 mr-1" />
+                  {preview.locations.length} locations
+                </Badge>
+                {preview.outside > 0 && (
+                  <Badge variant="outline" className="text-xs">
+                    {preview.outside} outside the bounds, skipped
+                  </Badge>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!boundsValid || (mode === 'import' && !preview?.locations.length)}
+          >
+            <Globe className="h-4 w-4 mr-2" />
+            {mode === 'export' ? 'Export' : 'Import'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
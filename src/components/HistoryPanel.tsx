@@ -0,0 +1,61 @@
+import { Button } from './ui/button'
+import { ScrollArea } from './ui/scroll-area'
+import { History, Undo2, Redo2, X } from 'lucide-react'
+import type { HistoryEntry } from '../hooks/use-command-history'
+
+interface HistoryPanelProps {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+  onJumpTo: (entryId: number) => void
+  onClose: () => void
+}
+
+export function HistoryPanel({ past, future, onJumpTo, onClose }: HistoryPanelProps) {
+  const currentId = past.length > 0 ? past[past.length - 1].id : 0
+
+  const renderEntry = (entry: HistoryEntry, isUndone: boolean) => (
+    <button
+      key={entry.id}
+      onClick={() => onJumpTo(entry.id)}
+      className={`w-full text-left px-2 py-1.5 rounded text-xs transition-colors hover:bg-muted/50 ${
+        entry.id === currentId ? 'bg-primary/10 font-medium' : ''
+      } ${isUndone ? 'text-muted-foreground line-through opacity-60' : ''}`}
+    >
+      <div className="truncate">{entry.label}</div>
+      <div className="text-[10px] text-muted-foreground">
+        {new Date(entry.timestamp).toLocaleTimeString()}
+        {entry.commands.length > 1 && ` • ${entry.commands.length} steps`}
+      </div>
+    </button>
+  )
+
+  return (
+    <div className="bg-card border rounded-lg shadow-lg w-64 flex flex-col max-h-80">
+      <div className="flex items-center gap-2 p-2 border-b">
+        <History className="h-3 w-3" />
+        <span className="text-sm font-medium">History</span>
+        <Button onClick={onClose} size="sm" variant="ghost" className="h-6 w-6 p-0 ml-auto">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+      <ScrollArea className="flex-1">
+        <div className="p-1 space-y-0.5">
+          <button
+            onClick={() => onJumpTo(0)}
+            className={`w-full text-left px-2 py-1.5 rounded text-xs transition-colors hover:bg-muted/50 ${
+              currentId === 0 ? 'bg-primary/10 font-medium' : ''
+            }`}
+          >
+            Opened map
+          </button>
+          {past.map(entry => renderEntry(entry, false))}
+          {future.map(entry => renderEntry(entry, true))}
+        </div>
+      </ScrollArea>
+      <div className="flex items-center gap-2 p-2 border-t text-[10px] text-muted-foreground">
+        <Undo2 className="h-3 w-3" /> Ctrl+Z
+        <Redo2 className="h-3 w-3 ml-2" /> Ctrl+Shift+Z
+      </div>
+    </div>
+  )
+}
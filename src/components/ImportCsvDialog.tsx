@@ -0,0 +1,220 @@
+import { useState, useRef, useMemo } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Switch } from './ui/switch'
+import { ScrollArea } from './ui/scroll-area'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Upload, AlertTriangle, MapPin, Crosshair } from 'lucide-react'
+import { parseCsv } from '../lib/csv'
+import {
+  guessColumnMapping,
+  hasCoordinates,
+  locationCsvFieldLabels,
+  readLocationRows,
+  type CsvLocationDraft,
+  type LocationCsvField
+} from '../lib/location-csv'
+import { locationTypes } from '../lib/map-constants'
+import type { MapLocation } from '../types/map'
+
+interface ImportCsvDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImport: (locations: CsvLocationDraft[], autoPlace: boolean) => void
+}
+
+interface CsvTable {
+  headers: string[]
+  rows: string[][]
+}
+
+const fields = Object.keys(locationCsvFieldLabels) as LocationCsvField[]
+
+export function ImportCsvDialog({ open, onOpenChange, onImport }: ImportCsvDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState('')
+  const [table, setTable] = useState<CsvTable | null>(null)
+  const [mapping, setMapping] = useState<LocationCsvField[]>([])
+  const [defaultType, setDefaultType] = useState<MapLocation['type']>('landmark')
+  const [autoPlace, setAutoPlace] = useState(true)
+
+  const preview = useMemo(
+    () => table ? readLocationRows(table.headers, table.rows, mapping, defaultType) : null,
+    [table, mapping, defaultType]
+  )
+  const unplacedCount = preview ? preview.locations.filter(location => !hasCoordinates(location)).length : 0
+  const importCount = preview ? preview.locations.length - (autoPlace ? 0 : unplacedCount) : 0
+
+  const reset = () => {
+    setFileName('')
+    setTable(null)
+    setMapping([])
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset()
+    onOpenChange(nextOpen)
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const [headers = [], ...rows] = parseCsv(await file.text())
+    setFileName(file.name)
+    setTable({ headers, rows })
+    setMapping(guessColumnMapping(headers))
+  }
+
+  const updateMapping = (column: number, field: LocationCsvField) => {
+    setMapping(prev => prev.map((current, index) => {
+      if (index === column) return field
+      // Core fields map to a single column; the previous owner falls back to a property
+      if (current === field && field !== 'property' && field !== 'ignore') return 'property'
+      return current
+    }))
+  }
+
+  const handleImport = () => {
+    if (!preview || importCount === 0) return
+    onImport(preview.locations, autoPlace)
+    handleOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Locations from CSV</DialogTitle>
+          <DialogDescription>Map spreadsheet columns to location fields; other columns become custom properties</DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="w-full">
+          <Upload className="h-4 w-4 mr-2" />
+          {fileName || 'Choose file...'}
+        </Button>
+
+        {table && table.headers.length === 0 && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4" />
+            The file is empty
+          </div>
+        )}
+
+        {table && table.headers.length > 0 && preview && (
+          <div className="space-y-4">
+            <ScrollArea className="h-56 rounded-lg border">
+              <div className="divide-y">
+                {table.headers.map((header, column) => (
+                  <div key={column} className="flex items-center gap-3 p-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium truncate">{header || `Column ${column + 1}`}</div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {table.rows[0]?.[column] || 'No value in first row'}
+                      </div>
+                    </div>
+                    <Select
+                      value={mapping[column]}
+                      onValueChange={(value) => updateMapping(column, value as LocationCsvField)}
+                    >
+                      <SelectTrigger className="h-8 w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {fields.map(field => (
+                          <SelectItem key={field} value={field}>{locationCsvFieldLabels[field]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label className="text-xs">Type for rows without a valid type</Label>
+                <Select value={defaultType} onValueChange={(value) => setDefaultType(value as MapLocation['type'])}>
+                  <SelectTrigger className="h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {locationTypes.map(type => (
+                      <SelectItem key={type.value} value={type.value}>
+                        <div className="flex items-center gap-2">
+                          <type.icon className="h-3 w-3" />
+                          {type.label}
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="csv-auto-place" className="text-xs">
+                  Auto-place rows without coordinates
+                </Label>
+                <Switch id="csv-auto-place" checked={autoPlace} onCheckedChange={setAutoPlace} />
+              </div>
+            </div>
+
+            {!mapping.includes('name') && (
+              <div className="flex items-center gap-2 text-xs text-destructive">
+                <AlertTriangle className="h-4 w-4" />
+                Choose the column that holds location names
+              </div>
+            )}
+
+            {preview.warnings.length > 0 && (
+              <div className="rounded-lg border border-yellow-500/50 p-3 space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                  {preview.warnings.length} warning{preview.warnings.length > 1 ? 's' : ''}
+                </div>
+                <ScrollArea className="max-h-32">
+                  <ul className="space-y-1 text-xs text-muted-foreground">
+                    {preview.warnings.map((warning, index) => (
+                      <li key={index}>{warning}</li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary" className="text-xs">
+                <MapPin className="h-3 w-3 mr-1" />
+                {importCount} locations
+              </Badge>
+              {unplacedCount > 0 && (
+                <Badge variant="outline" className="text-xs">
+                  <Crosshair className="h-3 w-3 mr-1" />
+                  {unplacedCount} without coordinates{autoPlace ? ', auto-placed' : ', skipped'}
+                </Badge>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importCount === 0}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,139 @@
+import { useState, useRef } from 'react'
+import { Button } from './ui/button'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { ScrollArea } from './ui/scroll-area'
+import { RadioGroup, RadioGroupItem } from './ui/radio-group'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Upload, FileJson, AlertTriangle, MapPin } from 'lucide-react'
+import { parseMapFile, type ImportMode, type ParseMapFileResult, type MapFile } from '../lib/map-file'
+import { isMapBundleFile, readMapBundle } from '../lib/map-bundle'
+
+interface ImportMapDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImport: (file: MapFile, mode: ImportMode) => void
+}
+
+export function ImportMapDialog({ open, onOpenChange, onImport }: ImportMapDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [fileName, setFileName] = useState('')
+  const [result, setResult] = useState<ParseMapFileResult | null>(null)
+  const [mode, setMode] = useState<ImportMode>('replace')
+
+  const reset = () => {
+    setFileName('')
+    setResult(null)
+    setMode('replace')
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset()
+    onOpenChange(nextOpen)
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    setFileName(file.name)
+    setResult(isMapBundleFile(file) ? await readMapBundle(file) : parseMapFile(await file.text()))
+  }
+
+  const handleImport = () => {
+    if (!result?.success) return
+    onImport(result.file, mode)
+    handleOpenChange(false)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Import Map</DialogTitle>
+          <DialogDescription>Load a map JSON file or ZIP bundle previously created with Export</DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.zip,application/json,application/zip"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="w-full">
+          <Upload className="h-4 w-4 mr-2" />
+          {fileName || 'Choose file...'}
+        </Button>
+
+        {result && !result.success && (
+          <div className="rounded-lg border border-destructive/50 p-3 space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium text-destructive">
+              <AlertTriangle className="h-4 w-4" />
+              {result.errors.length} problem{result.errors.length > 1 ? 's' : ''} found
+            </div>
+            <ScrollArea className="max-h-48">
+              <ul className="space-y-1 text-xs text-muted-foreground">
+                {result.errors.map((error, index) => (
+                  <li key={index}>{error}</li>
+                ))}
+              </ul>
+            </ScrollArea>
+          </div>
+        )}
+
+        {result?.success && (
+          <div className="space-y-4">
+            <div className="rounded-lg border p-3 space-y-1">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <FileJson className="h-4 w-4" />
+                {result.file.name}
+              </div>
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary" className="text-xs">
+                  <MapPin className="h-3 w-3 mr-1" />
+                  {result.file.locations.length} locations
+                </Badge>
+                <span className="text-xs text-muted-foreground">
+                  {result.file.settings.width}x{result.file.settings.height}
+                </span>
+                {result.migratedFrom && (
+                  <Badge variant="outline" className="text-xs">
+                    Upgraded from v{result.migratedFrom}
+                  </Badge>
+                )}
+              </div>
+            </div>
+
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="replace" id="import-replace" className="mt-0.5" />
+                <Label htmlFor="import-replace" className="text-sm font-normal">
+                  <div className="font-medium">Replace current map</div>
+                  <div className="text-xs text-muted-foreground">Use the file's settings, terrain and locations</div>
+                </Label>
+              </div>
+              <div className="flex items-start gap-2">
+                <RadioGroupItem value="merge" id="import-merge" className="mt-0.5" />
+                <Label htmlFor="import-merge" className="text-sm font-normal">
+                  <div className="font-medium">Merge into current map</div>
+                  <div className="text-xs text-muted-foreground">Keep current settings and add the file's locations</div>
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!result?.success}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
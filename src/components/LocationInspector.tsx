@@ -0,0 +1,262 @@
+import { useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Textarea } from './ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select'
+import { Separator } from './ui/separator'
+import { Plus, Trash2, Sparkles, X, Eye, EyeOff, Loader2 } from 'lucide-react'
+import { locationTypes } from '../lib/map-constants'
+import { getGridReference } from '../lib/grid'
+import type { MapLocation, MapSettings } from '../types/map'
+
+interface LocationInspectorProps {
+  location: MapLocation
+  settings: MapSettings
+  onChange: (changes: Partial<MapLocation>, label: string) => void
+  onDelete: () => void
+  onGenerateIcon: () => Promise<unknown>
+  onClose: () => void
+}
+
+// Property values are edited as text; keep numbers and booleans typed when they round-trip
+const parsePropertyValue = (text: string): unknown => {
+  if (text === 'true') return true
+  if (text === 'false') return false
+  if (text.trim() !== '' && String(Number(text)) === text) return Number(text)
+  return text
+}
+
+const formatPropertyValue = (value: unknown) =>
+  typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value ?? '')
+
+export function LocationInspector({ location, settings, onChange, onDelete, onGenerateIcon, onClose }: LocationInspectorProps) {
+  const [isGeneratingIcon, setIsGeneratingIcon] = useState(false)
+  // Key renames are committed on blur so typing does not reorder the properties
+  const [keyDrafts, setKeyDrafts] = useState<Record<string, string>>({})
+  // Set while the name field is blank; the location keeps its last name, which the field
+  // shows again on blur
+  const [nameDraft, setNameDraft] = useState<string | null>(null)
+
+  const properties = Object.entries(location.properties)
+
+  const updateProperties = (next: Record<string, any>, label: string) => {
+    onChange({ properties: next }, label)
+  }
+
+  const renameProperty = (oldKey: string) => {
+    const newKey = keyDrafts[oldKey]?.trim()
+    setKeyDrafts(prev => {
+      const { [oldKey]: _, ...rest } = prev
+      return rest
+    })
+    if (!newKey || newKey === oldKey || newKey in location.properties) return
+
+    // Rebuild the object to keep the property in place
+    const next = Object.fromEntries(
+      properties.map(([key, value]) => [key === oldKey ? newKey : key, value])
+    )
+    updateProperties(next, `Rename property "${oldKey}"`)
+  }
+
+  const addProperty = () => {
+    let index = properties.length + 1
+    while (`property${index}` in location.properties) index++
+    updateProperties({ ...location.properties, [`property${index}`]: '' }, 'Add property')
+  }
+
+  const removeProperty = (key: string) => {
+    const { [key]: _, ...rest } = location.properties
+    updateProperties(rest, `Remove property "${key}"`)
+  }
+
+  const handleGenerateIcon = async () => {
+    setIsGeneratingIcon(true)
+    try {
+      await onGenerateIcon()
+    } finally {
+      setIsGeneratingIcon(false)
+    }
+  }
+
+  const handleNameChange = (name: string) => {
+    if (name.trim()) {
+      setNameDraft(null)
+      onChange({ name }, 'Rename location')
+    } else {
+      setNameDraft(name)
+    }
+  }
+
+  const handleCoordinateChange = (axis: 'x' | 'y', text: string) => {
+    const value = parseFloat(text)
+    if (isNaN(value)) return
+    onChange({ [axis]: value }, `Move "${location.name}"`)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <h3 className="font-medium text-sm">Location Properties</h3>
+        <Button
+          onClick={() => onChange({ visible: !location.visible }, `${location.visible ? 'Hide' : 'Show'} "${location.name}"`)}
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0 ml-auto"
+          title={location.visible ? 'Hide location' : 'Show location'}
+        >
+          {location.visible ? <Eye className="h-3 w-3" /> : <EyeOff className="h-3 w-3" />}
+        </Button>
+        <Button
+          onClick={onDelete}
+          size="sm"
+          variant="ghost"
+          className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+          title="Delete location"
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+        <Button onClick={onClose} size="sm" variant="ghost" className="h-6 w-6 p-0" title="Close">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div>
+        <Label className="text-xs">Name</Label>
+        <Input
+          value={nameDraft ?? location.name}
+          onChange={(e) => handleNameChange(e.target.value)}
+          onBlur={() => setNameDraft(null)}
+          className="h-8"
+        />
+      </div>
+
+      <div>
+        <Label className="text-xs">Type</Label>
+        <Select
+          value={location.type}
+          onValueChange={(value: any) => onChange({ type: value }, `Change type of "${location.name}"`)}
+        >
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {locationTypes.map(type => (
+              <SelectItem key={type.value} value={type.value}>
+                <div className="flex items-center gap-2">
+                  <type.icon className="h-3 w-3" />
+                  {type.label}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div>
+        <Label className="text-xs">Description</Label>
+        <Textarea
+          value={location.description}
+          onChange={(e) => onChange({ description: e.target.value }, `Edit description of "${location.name}"`)}
+          rows={3}
+          className="text-xs"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs">X</Label>
+          <Input
+            type="number"
+            value={Math.round(location.x * 100) / 100}
+            onChange={(e) => handleCoordinateChange('x', e.target.value)}
+            className="h-8"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">Y</Label>
+          <Input
+            type="number"
+            value={Math.round(location.y * 100) / 100}
+            onChange={(e) => handleCoordinateChange('y', e.target.value)}
+            className="h-8"
+          />
+        </div>
+        <p className="col-span-2 text-xs text-muted-foreground">
+          Grid cell {getGridReference(location, settings)}
+        </p>
+      </div>
+
+      <div>
+        <Label className="text-xs">Icon</Label>
+        <div className="flex items-center gap-2">
+          <div className="h-8 w-8 flex-shrink-0 rounded border bg-muted overflow-hidden">
+            {location.iconUrl && (
+              <img src={location.iconUrl} alt={location.name} className="w-full h-full object-cover" />
+            )}
+          </div>
+          <Input
+            value={location.iconUrl || ''}
+            onChange={(e) => onChange({ iconUrl: e.target.value || undefined }, `Change icon of "${location.name}"`)}
+            placeholder="Icon URL"
+            className="h-8 text-xs"
+          />
+          <Button
+            onClick={handleGenerateIcon}
+            disabled={isGeneratingIcon}
+            size="sm"
+            variant="outline"
+            className="h-8 w-8 p-0 flex-shrink-0"
+            title="Generate custom icon"
+          >
+            {isGeneratingIcon ? <Loader2 className="h-3 w-3 animate-spin" /> : <Sparkles className="h-3 w-3" />}
+          </Button>
+        </div>
+      </div>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-xs">Custom Properties</Label>
+          <Button onClick={addProperty} size="sm" variant="ghost" className="h-6 px-2 text-xs">
+            <Plus className="h-3 w-3 mr-1" />
+            Add
+          </Button>
+        </div>
+        {properties.length === 0 && (
+          <div className="text-xs text-muted-foreground">No custom properties</div>
+        )}
+        {properties.map(([key, value]) => (
+          <div key={key} className="flex items-center gap-1">
+            <Input
+              value={keyDrafts[key] ?? key}
+              onChange={(e) => setKeyDrafts(prev => ({ ...prev, [key]: e.target.value }))}
+              onBlur={() => renameProperty(key)}
+              onKeyDown={(e) => e.key === 'Enter' && renameProperty(key)}
+              className="h-7 text-xs flex-1"
+              aria-label="Property name"
+            />
+            <Input
+              value={formatPropertyValue(value)}
+              onChange={(e) => updateProperties(
+                { ...location.properties, [key]: parsePropertyValue(e.target.value) },
+                `Edit property "${key}"`
+              )}
+              className="h-7 text-xs flex-1"
+              aria-label="Property value"
+            />
+            <Button
+              onClick={() => removeProperty(key)}
+              size="sm"
+              variant="ghost"
+              className="h-7 w-7 p-0 flex-shrink-0"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
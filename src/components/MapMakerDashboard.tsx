@@ -10,18 +10,14 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
 import { Slider } from './ui/slider'
 import { Switch } from './ui/switch'
 import { Separator } from './ui/separator'
+import { Progress } from './ui/progress'
 import { ScrollArea } from './ui/scroll-area'
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from './ui/dropdown-menu'
 import { 
   Map, 
   MapPin, 
   Target, 
-  ShoppingBag, 
-  Users,
-  Gem,
   Mountain,
-  Trees,
-  Waves,
-  Zap,
   Download,
   Upload,
   Settings,
@@ -30,6 +26,11 @@ import {
   ZoomIn,
   ZoomOut,
   RotateCcw,
+  Maximize,
+  Dices,
+  Paintbrush,
+  MountainSnow,
+  LocateFixed,
   Save,
   Eye,
   EyeOff,
@@ -40,10 +41,78 @@ import {
   Filter,
   Sparkles,
   Loader2,
-  Home
+  ArrowLeft,
+  Check,
+  Undo2,
+  Redo2,
+  History,
+  FileJson,
+  ImageDown,
+  PenTool,
+  Gamepad2,
+  Box,
+  FileCode,
+  FileArchive,
+  Sheet,
+  Globe,
+  FileText,
+  BookOpen,
+  Images
 } from 'lucide-react'
 import { blink } from '../blink/client'
 import { toast } from 'sonner'
+import { loadMap, saveMap } from '../lib/map-storage'
+import { renderMapThumbnail } from '../lib/map-thumbnail'
+import { getProceduralTerrain, randomSeed } from '../lib/procedural-terrain'
+import { encodeTerrainCanvas, generateTerrainImage } from '../lib/terrain-generator'
+import {
+  getRectangleRegion,
+  getRegionArea,
+  MIN_REGION_AREA,
+  repaintTerrainRegion,
+  type RegionTool
+} from '../lib/terrain-inpaint'
+import { generateTiledTerrain, uploadTerrainImage } from '../lib/terrain-tiles'
+import { addTerrainHistoryEntry, removeTerrainHistoryEntry, setTerrainFavorite } from '../lib/terrain-history'
+import { locationTypes, terrainTypes, biomes, gridTypes, landShapes } from '../lib/map-constants'
+import { buildMapFile, mergeLocations, toPlainLocation, type ImportMode, type MapFile } from '../lib/map-file'
+import { blobToDataUrl, fetchImage, loadImage } from '../lib/image-utils'
+import { snapToGrid, clampToMap, getGridReference, type Point } from '../lib/grid'
+import { clientToCanvas, fitRect, focusPoint, ZOOM_STEP } from '../lib/viewport'
+import { downloadBlob, toFileName } from '../lib/download'
+import { isImageSizeSupported, renderMapImage, type ImageExportOptions } from '../lib/export-image'
+import { renderMapSvg } from '../lib/export-svg'
+import { createPdfAtlas, type PdfAtlasOptions } from '../lib/export-pdf'
+import { createHtmlSite, createMarkdownVault } from '../lib/export-wiki'
+import { buildTiledMap, toTiledJson, toTmx } from '../lib/export-tiled'
+import { buildGodotScene } from '../lib/export-godot'
+import { createMapBundle, uploadInlineImages } from '../lib/map-bundle'
+import { hasCoordinates, locationsToCsv, type CsvLocationDraft } from '../lib/location-csv'
+import { locationsToGeoJson } from '../lib/geojson'
+import { buildUnityMapData, unityScriptableObjectSource, UNITY_SCRIPT_FILE_NAME } from '../lib/export-unity'
+import { ImportMapDialog } from './ImportMapDialog'
+import { ImportCsvDialog } from './ImportCsvDialog'
+import { GeoJsonDialog } from './GeoJsonDialog'
+import { ExportImageDialog } from './ExportImageDialog'
+import { ExportPdfDialog } from './ExportPdfDialog'
+import { Minimap } from './Minimap'
+import { RegionRepaintPanel } from './RegionRepaintPanel'
+import { TerrainCandidatesDialog, type TerrainCandidate } from './TerrainCandidatesDialog'
+import { TerrainHistoryList } from './TerrainHistoryList'
+import { HistoryPanel } from './HistoryPanel'
+import { LocationInspector } from './LocationInspector'
+import { useCommandHistory } from '../hooks/use-command-history'
+import { useMapRenderer } from '../hooks/use-map-renderer'
+import { useMapGestures } from '../hooks/use-map-gestures'
+import { useUserPreferences } from '../hooks/use-user-preferences'
+import {
+  defaultLocationTypeDistribution,
+  defaultMapSettings,
+  type MapLocation,
+  type GeoBounds,
+  type MapSettings,
+  type TerrainHistoryEntry
+} from '../types/map'
 
 interface User {
   id: string
@@ -53,87 +122,62 @@ interface User {
 
 interface MapMakerDashboardProps {
   user: User
+  mapId: string
+  onBackToMaps: () => void
 }
 
-interface MapLocation {
-  id: string
-  type: 'mission' | 'landmark' | 'shop' | 'npc' | 'resource'
-  name: string
-  description: string
-  x: number
-  y: number
-  iconUrl?: string
-  properties: Record<string, any>
-  visible: boolean
-}
+type SaveStatus = 'saved' | 'unsaved' | 'saving' | 'error'
 
-interface MapSettings {
-  width: number
-  height: number
-  gridSize: number
-  showGrid: boolean
-  backgroundColor: string
-  terrainType: 'fantasy' | 'modern' | 'sci-fi' | 'medieval'
-  biome: 'forest' | 'desert' | 'mountain' | 'ocean' | 'urban' | 'space'
-}
+const AUTOSAVE_DELAY = 1500
 
-const locationTypes = [
-  { value: 'mission', label: 'Missions', icon: Target, color: 'bg-red-500' },
-  { value: 'landmark', label: 'Landmarks', icon: MapPin, color: 'bg-blue-500' },
-  { value: 'shop', label: 'Shops', icon: ShoppingBag, color: 'bg-green-500' },
-  { value: 'npc', label: 'NPCs', icon: Users, color: 'bg-purple-500' },
-  { value: 'resource', label: 'Resources', icon: Gem, color: 'bg-yellow-500' }
-]
-
-const terrainTypes = [
-  { value: 'fantasy', label: 'Fantasy', icon: Mountain },
-  { value: 'modern', label: 'Modern', icon: Home },
-  { value: 'sci-fi', label: 'Sci-Fi', icon: Zap },
-  { value: 'medieval', label: 'Medieval', icon: Mountain }
-]
-
-const biomes = [
-  { value: 'forest', label: 'Forest', icon: Trees, color: '#22c55e' },
-  { value: 'desert', label: 'Desert', icon: Mountain, color: '#f59e0b' },
-  { value: 'mountain', label: 'Mountain', icon: Mountain, color: '#6b7280' },
-  { value: 'ocean', label: 'Ocean', icon: Waves, color: '#3b82f6' },
-  { value: 'urban', label: 'Urban', icon: Home, color: '#64748b' },
-  { value: 'space', label: 'Space', icon: Zap, color: '#8b5cf6' }
-]
-
-export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
+export function MapMakerDashboard({ user, mapId, onBackToMaps }: MapMakerDashboardProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
-  const [mapSettings, setMapSettings] = useState<MapSettings>({
-    width: 1200,
-    height: 800,
-    gridSize: 40,
-    showGrid: true,
-    backgroundColor: '#f8fafc',
-    terrainType: 'fantasy',
-    biome: 'forest'
-  })
+  const [mapSettings, setMapSettings] = useState<MapSettings>(defaultMapSettings)
   
   const [locations, setLocations] = useState<MapLocation[]>([])
-  const [selectedLocation, setSelectedLocation] = useState<MapLocation | null>(null)
+  const [selectedLocationId, setSelectedLocationId] = useState<string | null>(null)
   const [isGeneratingTerrain, setIsGeneratingTerrain] = useState(false)
+  // Tiles finished while AI terrain is generating
+  const [terrainProgress, setTerrainProgress] = useState<{ completed: number; total: number } | null>(null)
+  // How many AI terrains to generate at once; more than one are compared before one is used
+  const [terrainCandidateCount, setTerrainCandidateCount] = useState(1)
+  const [terrainCandidates, setTerrainCandidates] = useState<TerrainCandidate[] | null>(null)
+  const [terrainHistory, setTerrainHistory] = useState<TerrainHistoryEntry[]>([])
+  const [isRestoringTerrain, setIsRestoringTerrain] = useState(false)
+  // Region repainting: the selection tool, the selected outline, and the repainted
+  // terrain previewed until it is applied or discarded
+  const [regionTool, setRegionTool] = useState<RegionTool | null>(null)
+  const [region, setRegion] = useState<Point[] | null>(null)
+  const [regionPrompt, setRegionPrompt] = useState('')
+  const [regionPreview, setRegionPreview] = useState<HTMLCanvasElement | null>(null)
+  const [isRepaintingRegion, setIsRepaintingRegion] = useState(false)
+  const regionStartRef = useRef<Point | null>(null)
   const [isGeneratingLocations, setIsGeneratingLocations] = useState(false)
   const [terrainImage, setTerrainImage] = useState<HTMLImageElement | null>(null)
   const [terrainImageUrl, setTerrainImageUrl] = useState<string | null>(null)
-  const [zoom, setZoom] = useState(1)
-  const [panOffset, setPanOffset] = useState({ x: 0, y: 0 })
   const [isDragging, setIsDragging] = useState(false)
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
+  // Last pointer position relative to the canvas while panning; a ref so mouse moves do not re-render
+  const dragStartRef = useRef({ x: 0, y: 0 })
   const [showLayers, setShowLayers] = useState(true)
   const [searchTerm, setSearchTerm] = useState('')
   const [filterType, setFilterType] = useState<string>('all')
+  const [mapName, setMapName] = useState('')
   const [mapDescription, setMapDescription] = useState('')
-  const [locationTypeDistribution, setLocationTypeDistribution] = useState({
-    mission: 20,
-    landmark: 30,
-    shop: 25,
-    npc: 15,
-    resource: 10
-  })
+  const [locationTypeDistribution, setLocationTypeDistribution] = useState(defaultLocationTypeDistribution)
+
+  const selectedLocation = locations.find(location => location.id === selectedLocationId) || null
+
+  // Persistence state
+  const [isMapLoaded, setIsMapLoaded] = useState(false)
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('saved')
+  const skipAutosaveRef = useRef(true)
+  // Edits are counted so a save only reports "saved" if nothing changed while it ran
+  const revisionRef = useRef(0)
+  const savedRevisionRef = useRef(0)
+  // Saves run one after another so an older one never lands last
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve())
+  const terrainImageRef = useRef(terrainImage)
+  terrainImageRef.current = terrainImage
 
   // New location form state
   const [newLocation, setNewLocation] = useState({
@@ -146,250 +190,456 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
 
   const [isAddingLocation, setIsAddingLocation] = useState(false)
   const [editMode, setEditMode] = useState(false)
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false)
+  const [isImportCsvDialogOpen, setIsImportCsvDialogOpen] = useState(false)
+  const [geoJsonDialogMode, setGeoJsonDialogMode] = useState<'import' | 'export' | null>(null)
+  const [isExportImageDialogOpen, setIsExportImageDialogOpen] = useState(false)
+  const [isExportPdfDialogOpen, setIsExportPdfDialogOpen] = useState(false)
+  const [draggedLocation, setDraggedLocation] = useState<{
+    id: string
+    name: string
+    startX: number
+    startY: number
+    offsetX: number
+    offsetY: number
+    x: number
+    y: number
+  } | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+
+  const history = useCommandHistory()
+  const terrainFolder = `terrain/${user.id}/${mapId}`
+  const importFolder = `imports/${user.id}/${mapId}`
+  const { preferences, updatePreferences } = useUserPreferences(user.id)
+  const { undo, redo } = history
 
   // Canvas drawing and interaction
-  const drawMap = useCallback(() => {
-    const canvas = canvasRef.current
-    if (!canvas) return
+  const { zoom, getViewport, setViewport, getSize, onViewportChange, zoomBy, clientToMap, setHovered, hitTest } = useMapRenderer(canvasRef, {
+    settings: mapSettings,
+    terrain: regionPreview ?? terrainImage,
+    locations,
+    selectedId: selectedLocationId,
+    dragged: draggedLocation,
+    region: regionTool ? region : null
+  })
+  useMapGestures(canvasRef, { getViewport, setViewport })
 
-    const ctx = canvas.getContext('2d')
-    if (!ctx) return
+  const zoomToFit = useCallback(() => {
+    setViewport(fitRect({ x: 0, y: 0, width: mapSettings.width, height: mapSettings.height }, getSize()))
+  }, [mapSettings.width, mapSettings.height, getSize, setViewport])
 
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height)
+  const zoomToSelection = useCallback(() => {
+    if (!selectedLocation) return
+    setViewport(focusPoint(selectedLocation, getSize(), getViewport()))
+  }, [selectedLocation, getSize, getViewport, setViewport])
 
-    // Save context
-    ctx.save()
+  // View shortcuts: + and - zoom, 0 fits the map, F focuses the selected location
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+      if (event.ctrlKey || event.metaKey || event.altKey) return
+
+      if (event.key === '+' || event.key === '=') zoomBy(ZOOM_STEP)
+      else if (event.key === '-') zoomBy(1 / ZOOM_STEP)
+      else if (event.key === '0') zoomToFit()
+      else if (event.key.toLowerCase() === 'f') zoomToSelection()
+    }
 
-    // Apply zoom and pan
-    ctx.scale(zoom, zoom)
-    ctx.translate(panOffset.x, panOffset.y)
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [zoomBy, zoomToFit, zoomToSelection])
 
-    // Draw terrain image if available, otherwise draw colored background
-    if (terrainImage) {
-      ctx.drawImage(terrainImage, 0, 0, mapSettings.width, mapSettings.height)
-    } else {
-      // Draw background with biome color
-      const biome = biomes.find(b => b.value === mapSettings.biome)
-      ctx.fillStyle = biome?.color || mapSettings.backgroundColor
-      ctx.fillRect(0, 0, mapSettings.width, mapSettings.height)
-      
-      // Add some basic terrain patterns when no image is available
-      ctx.globalAlpha = 0.1
-      for (let i = 0; i < 50; i++) {
-        const x = Math.random() * mapSettings.width
-        const y = Math.random() * mapSettings.height
-        const size = Math.random() * 30 + 10
-        
-        ctx.beginPath()
-        ctx.arc(x, y, size, 0, 2 * Math.PI)
-        ctx.fillStyle = 'rgba(0, 0, 0, 0.2)'
-        ctx.fill()
+  // Load the chosen map document
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchMap = async () => {
+      try {
+        const map = await loadMap(mapId)
+        if (cancelled) return
+        if (!map) {
+          toast.error('Map not found')
+          onBackToMaps()
+          return
+        }
+
+        skipAutosaveRef.current = true
+        setMapName(map.name)
+        setMapDescription(map.description)
+        setMapSettings(map.settings)
+        setLocations(map.locations)
+        setLocationTypeDistribution(map.locationTypeDistribution)
+        setTerrainImageUrl(map.terrainImageUrl)
+        setTerrainHistory(map.terrainHistory)
+        setIsMapLoaded(true)
+        if (map.terrainImageUrl) {
+          loadImage(map.terrainImageUrl)
+            .then(img => !cancelled && setTerrainImage(img))
+            .catch(() => toast.error('Failed to load saved terrain image'))
+        }
+      } catch (error) {
+        console.error('Error loading map:', error)
+        toast.error('Failed to load map')
       }
-      ctx.globalAlpha = 1
     }
 
-    // Draw grid
-    if (mapSettings.showGrid) {
-      ctx.strokeStyle = terrainImage ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.1)'
-      ctx.lineWidth = 1
-      
-      for (let x = 0; x <= mapSettings.width; x += mapSettings.gridSize) {
-        ctx.beginPath()
-        ctx.moveTo(x, 0)
-        ctx.lineTo(x, mapSettings.height)
-        ctx.stroke()
-      }
-      
-      for (let y = 0; y <= mapSettings.height; y += mapSettings.gridSize) {
-        ctx.beginPath()
-        ctx.moveTo(0, y)
-        ctx.lineTo(mapSettings.width, y)
-        ctx.stroke()
+    fetchMap()
+    return () => {
+      cancelled = true
+    }
+  }, [mapId, onBackToMaps])
+
+  const saveCurrentMap = useCallback(() => {
+    const revision = revisionRef.current
+    const save = saveQueueRef.current.then(async () => {
+      // A save queued earlier may already have written this revision
+      if (savedRevisionRef.current >= revision) return
+
+      setSaveStatus('saving')
+      try {
+        await saveMap(mapId, {
+          name: mapName,
+          description: mapDescription,
+          settings: mapSettings,
+          locations,
+          terrainImageUrl,
+          terrainHistory,
+          locationTypeDistribution,
+          thumbnail: renderMapThumbnail(mapSettings, locations, terrainImageRef.current)
+        })
+        savedRevisionRef.current = revision
+        setSaveStatus(revisionRef.current === revision ? 'saved' : 'unsaved')
+      } catch (error) {
+        console.error('Error saving map:', error)
+        setSaveStatus('error')
+        toast.error('Failed to save map')
       }
+    })
+    saveQueueRef.current = save
+    return save
+  }, [mapId, mapName, mapDescription, mapSettings, locations, terrainImageUrl, terrainHistory, locationTypeDistribution])
+
+  // Autosave shortly after the last edit
+  useEffect(() => {
+    if (!isMapLoaded) return
+    if (skipAutosaveRef.current) {
+      skipAutosaveRef.current = false
+      return
     }
 
-    // Draw locations
-    locations.forEach(location => {
-      if (!location.visible) return
+    revisionRef.current += 1
+    setSaveStatus('unsaved')
+    const timeout = setTimeout(saveCurrentMap, AUTOSAVE_DELAY)
+    return () => clearTimeout(timeout)
+  }, [isMapLoaded, saveCurrentMap])
 
-      const locationType = locationTypes.find(t => t.value === location.type)
-      
-      // If location has a custom icon, try to draw it
-      if (location.iconUrl) {
-        // Check if we have a cached image for this icon
-        const iconImage = (location as any)._iconImage
-        if (iconImage && iconImage.complete) {
-          // Draw custom icon
-          const iconSize = 24
-          ctx.drawImage(iconImage, location.x - iconSize/2, location.y - iconSize/2, iconSize, iconSize)
-          
-          // Draw selection highlight for custom icons
-          if (selectedLocation?.id === location.id) {
-            ctx.beginPath()
-            ctx.arc(location.x, location.y, 18, 0, 2 * Math.PI)
-            ctx.strokeStyle = '#fbbf24'
-            ctx.lineWidth = 3
-            ctx.stroke()
-            
-            // Add pulsing effect
-            ctx.beginPath()
-            ctx.arc(location.x, location.y, 22, 0, 2 * Math.PI)
-            ctx.strokeStyle = 'rgba(251, 191, 36, 0.5)'
-            ctx.lineWidth = 2
-            ctx.stroke()
-          }
-        } else if (!iconImage) {
-          // Load the icon image if not already loaded
-          const img = new Image()
-          img.crossOrigin = 'anonymous'
-          img.onload = () => {
-            (location as any)._iconImage = img
-            drawMap() // Redraw when image loads
-          }
-          img.src = location.iconUrl
-          
-          // Fall back to default icon while loading
-          drawDefaultLocationIcon()
-        } else {
-          // Image is loading, show default icon
-          drawDefaultLocationIcon()
-        }
-      } else {
-        // Draw default location icon
-        drawDefaultLocationIcon()
+  // Undo/redo shortcuts, leaving text fields to their native undo
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return
+      if (!(event.ctrlKey || event.metaKey)) return
+
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault()
+        redo()
       }
-      
-      function drawDefaultLocationIcon() {
-        // Draw location background circle (larger)
-        ctx.beginPath()
-        ctx.arc(location.x, location.y, 16, 0, 2 * Math.PI)
-        ctx.fillStyle = 'rgba(255, 255, 255, 0.9)'
-        ctx.fill()
-        ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)'
-        ctx.lineWidth = 1
-        ctx.stroke()
-        
-        // Draw location type circle
-        ctx.beginPath()
-        ctx.arc(location.x, location.y, 12, 0, 2 * Math.PI)
-        
-        // Convert Tailwind color to hex
-        let color = '#3b82f6'
-        if (locationType?.color === 'bg-red-500') color = '#ef4444'
-        else if (locationType?.color === 'bg-blue-500') color = '#3b82f6'
-        else if (locationType?.color === 'bg-green-500') color = '#22c55e'
-        else if (locationType?.color === 'bg-purple-500') color = '#a855f7'
-        else if (locationType?.color === 'bg-yellow-500') color = '#eab308'
-        
-        ctx.fillStyle = color
-        ctx.fill()
-        
-        // Draw selection highlight
-        if (selectedLocation?.id === location.id) {
-          ctx.beginPath()
-          ctx.arc(location.x, location.y, 20, 0, 2 * Math.PI)
-          ctx.strokeStyle = '#fbbf24'
-          ctx.lineWidth = 3
-          ctx.stroke()
-          
-          // Add pulsing effect
-          ctx.beginPath()
-          ctx.arc(location.x, location.y, 24, 0, 2 * Math.PI)
-          ctx.strokeStyle = 'rgba(251, 191, 36, 0.5)'
-          ctx.lineWidth = 2
-          ctx.stroke()
-        }
-        
-        // Draw location icon (simplified)
-        ctx.fillStyle = 'white'
-        ctx.font = 'bold 10px Inter'
-        ctx.textAlign = 'center'
-        ctx.textBaseline = 'middle'
-        
-        let iconText = '?'
-        if (location.type === 'mission') iconText = '⚔'
-        else if (location.type === 'landmark') iconText = '🏛'
-        else if (location.type === 'shop') iconText = '🏪'
-        else if (location.type === 'npc') iconText = '👤'
-        else if (location.type === 'resource') iconText = '💎'
-        
-        ctx.fillText(iconText, location.x, location.y)
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  // Map edits below go through the command history so they can be undone
+  const updateMapSettings = (changes: Partial<MapSettings>, label: string) => {
+    const previous = Object.fromEntries(
+      Object.keys(changes).map(key => [key, mapSettings[key as keyof MapSettings]])
+    ) as Partial<MapSettings>
+
+    history.execute({
+      label,
+      mergeKey: `settings:${Object.keys(changes).join(',')}`,
+      redo: () => setMapSettings(prev => ({ ...prev, ...changes })),
+      undo: () => setMapSettings(prev => ({ ...prev, ...previous }))
+    })
+  }
+
+  const patchLocation = (id: string, changes: Partial<MapLocation>) => {
+    setLocations(prev => prev.map(loc => loc.id === id ? { ...loc, ...changes } : loc))
+  }
+
+  // Edit a location in place, keeping its id, icon and properties
+  const updateLocation = (id: string, changes: Partial<MapLocation>, label: string) => {
+    const location = locations.find(loc => loc.id === id)
+    if (!location) return
+
+    const previous = Object.fromEntries(
+      Object.keys(changes).map(key => [key, location[key as keyof MapLocation]])
+    ) as Partial<MapLocation>
+
+    history.execute({
+      label,
+      mergeKey: `location:${id}:${Object.keys(changes).join(',')}`,
+      redo: () => patchLocation(id, changes),
+      undo: () => patchLocation(id, previous)
+    })
+  }
+
+  const applyTerrain = (url: string | null, image: HTMLImageElement | null, label: string) => {
+    const previousUrl = terrainImageUrl
+    const previousImage = terrainImage
+
+    history.execute({
+      label,
+      redo: () => {
+        setTerrainImageUrl(url)
+        setTerrainImage(image)
+      },
+      undo: () => {
+        setTerrainImageUrl(previousUrl)
+        setTerrainImage(previousImage)
       }
-      
-      // Draw location name with background (for both custom and default icons)
-      ctx.font = '11px Inter'
-      ctx.textAlign = 'center'
-      ctx.textBaseline = 'top'
-      
-      const textY = location.y + 28
-      const textWidth = ctx.measureText(location.name).width
-      
-      // Text background
-      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)'
-      ctx.fillRect(location.x - textWidth/2 - 4, textY - 2, textWidth + 8, 16)
-      
-      // Text
-      ctx.fillStyle = 'white'
-      ctx.fillText(location.name, location.x, textY)
     })
 
-    // Restore context
-    ctx.restore()
-  }, [mapSettings, locations, zoom, panOffset, selectedLocation, terrainImage])
+    // Both images stay in the terrain history whatever undo does later
+    setTerrainHistory(prev => {
+      const entries = previousUrl ? addTerrainHistoryEntry(prev, previousUrl, 'Earlier terrain') : prev
+      return url ? addTerrainHistoryEntry(entries, url, label) : entries
+    })
+  }
+
+  const handleBackToMaps = async () => {
+    // Flush pending edits before leaving so the list shows the latest thumbnail, and stay
+    // if they could not be saved
+    if (savedRevisionRef.current !== revisionRef.current) {
+      await saveCurrentMap()
+      if (savedRevisionRef.current !== revisionRef.current) return
+    }
+    onBackToMaps()
+  }
 
-  useEffect(() => {
-    drawMap()
-  }, [drawMap])
+  // Convert a mouse event to map coordinates
+  const getMapPoint = (event: React.MouseEvent<HTMLCanvasElement>) => clientToMap(event.clientX, event.clientY)
 
-  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    const canvas = canvasRef.current
-    if (!canvas) return
+  const findLocationAt = (x: number, y: number) => hitTest({ x, y })
+
+  const moveLocationTo = (id: string, x: number, y: number) => patchLocation(id, { x, y })
 
-    const rect = canvas.getBoundingClientRect()
-    const x = (event.clientX - rect.left - panOffset.x * zoom) / zoom
-    const y = (event.clientY - rect.top - panOffset.y * zoom) / zoom
+  // Snap to cell centers while the grid is shown; hold Alt to place freely
+  const placeOnMap = (point: Point, altKey: boolean) =>
+    mapSettings.showGrid && !altKey ? snapToGrid(point, mapSettings) : clampToMap(point, mapSettings)
+
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (regionTool) return
+    const { x, y } = getMapPoint(event)
 
     if (isAddingLocation) {
-      setNewLocation(prev => ({ ...prev, x, y }))
+      const placed = placeOnMap({ x, y }, event.altKey)
+      setNewLocation(prev => ({ ...prev, x: placed.x, y: placed.y }))
       return
     }
 
     // Check if clicked on a location
-    const clickedLocation = locations.find(location => {
-      const distance = Math.sqrt((location.x - x) ** 2 + (location.y - y) ** 2)
-      return distance <= 12 && location.visible
-    })
+    const clickedLocation = findLocationAt(x, y)
 
-    setSelectedLocation(clickedLocation || null)
+    setSelectedLocationId(clickedLocation?.id ?? null)
   }
 
   const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
     if (isAddingLocation) return
+
+    // Start a new selection; while a repaint is previewed the map only pans
+    if (regionTool && !regionPreview && !isRepaintingRegion) {
+      const point = clampToMap(getMapPoint(event), mapSettings)
+      regionStartRef.current = point
+      setRegion([point])
+      return
+    }
+
+    // In edit mode, pressing on a marker picks it up instead of panning
+    if (editMode) {
+      const point = getMapPoint(event)
+      const location = findLocationAt(point.x, point.y)
+      if (location) {
+        setDraggedLocation({
+          id: location.id,
+          name: location.name,
+          startX: location.x,
+          startY: location.y,
+          offsetX: location.x - point.x,
+          offsetY: location.y - point.y,
+          x: location.x,
+          y: location.y
+        })
+        setSelectedLocationId(location.id)
+        return
+      }
+    }
     
     setIsDragging(true)
-    setDragStart({ x: event.clientX, y: event.clientY })
+    dragStartRef.current = clientToCanvas(event.currentTarget, event.clientX, event.clientY)
   }
 
   const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDragging) return
+    const regionStart = regionStartRef.current
+    if (regionStart) {
+      const point = clampToMap(getMapPoint(event), mapSettings)
+      if (regionTool === 'rectangle') {
+        setRegion(getRectangleRegion(regionStart, point))
+      } else {
+        // Skip points closer than a few screen pixels to keep the outline light
+        setRegion(prev => {
+          const last = prev?.[prev.length - 1]
+          return last && Math.hypot(point.x - last.x, point.y - last.y) < 3 / zoom ? prev : [...(prev ?? []), point]
+        })
+      }
+      return
+    }
 
-    const deltaX = event.clientX - dragStart.x
-    const deltaY = event.clientY - dragStart.y
+    if (draggedLocation) {
+      const point = getMapPoint(event)
+      const target = { x: point.x + draggedLocation.offsetX, y: point.y + draggedLocation.offsetY }
+      const { x, y } = placeOnMap(target, event.altKey)
 
-    setPanOffset(prev => ({
-      x: prev.x + deltaX / zoom,
-      y: prev.y + deltaY / zoom
+      // The marker is drawn at the drag position; the location itself moves on drop
+      if (x !== draggedLocation.x || y !== draggedLocation.y) {
+        setDraggedLocation({ ...draggedLocation, x, y })
+      }
+      return
+    }
+
+    if (!isDragging) {
+      const point = getMapPoint(event)
+      const hovered = isAddingLocation ? null : findLocationAt(point.x, point.y)
+      setHovered(hovered?.id ?? null)
+      event.currentTarget.style.cursor = hovered ? 'pointer' : ''
+      return
+    }
+
+    const point = clientToCanvas(event.currentTarget, event.clientX, event.clientY)
+    const deltaX = point.x - dragStartRef.current.x
+    const deltaY = point.y - dragStartRef.current.y
+
+    setViewport(prev => ({
+      zoom: prev.zoom,
+      pan: { x: prev.pan.x + deltaX / prev.zoom, y: prev.pan.y + deltaY / prev.zoom }
     }))
 
-    setDragStart({ x: event.clientX, y: event.clientY })
+    dragStartRef.current = point
   }
 
   const handleMouseUp = () => {
+    if (regionStartRef.current) {
+      regionStartRef.current = null
+      setRegion(prev => prev && prev.length >= 3 && getRegionArea(prev) >= MIN_REGION_AREA ? prev : null)
+      return
+    }
+
+    if (draggedLocation) {
+      const { id, name, startX, startY, x, y } = draggedLocation
+      if (x !== startX || y !== startY) {
+        history.execute({
+          label: `Move "${name}"`,
+          redo: () => moveLocationTo(id, x, y),
+          undo: () => moveLocationTo(id, startX, startY)
+        })
+      }
+      setDraggedLocation(null)
+    }
     setIsDragging(false)
   }
 
+  const handleMouseLeave = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    handleMouseUp()
+    setHovered(null)
+    event.currentTarget.style.cursor = ''
+  }
+
+  // Escape drops a dragged location back where it was picked up
+  useEffect(() => {
+    if (!draggedLocation) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key !== 'Escape') return
+      setDraggedLocation(null)
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [draggedLocation])
+
+  const closeRegionTool = useCallback(() => {
+    regionStartRef.current = null
+    setRegionTool(null)
+    setRegion(null)
+    setRegionPreview(null)
+  }, [])
+
+  // Escape leaves the region tool, unless a repaint is in flight
+  useEffect(() => {
+    if (!regionTool || isRepaintingRegion) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') closeRegionTool()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [regionTool, isRepaintingRegion, closeRegionTool])
+
+  const repaintRegion = async () => {
+    if (!region) return
+
+    setIsRepaintingRegion(true)
+    try {
+      const biome = biomes.find(b => b.value === mapSettings.biome)
+      const terrain = terrainTypes.find(t => t.value === mapSettings.terrainType)
+      const preview = await repaintTerrainRegion({
+        settings: mapSettings,
+        terrain: terrainImage ?? getProceduralTerrain(mapSettings),
+        region,
+        prompt: `Repaint this part of a top-down ${terrain?.label.toLowerCase()} ${biome?.label.toLowerCase()} game map to show: ${regionPrompt.trim()}.`,
+        folder: terrainFolder
+      })
+      setRegionPreview(preview)
+    } catch (error) {
+      console.error('Error repainting terrain region:', error)
+      toast.error('Failed to repaint the region')
+    } finally {
+      setIsRepaintingRegion(false)
+    }
+  }
+
+  // Save the previewed terrain as the map's terrain image; locations are left as they are
+  const applyRegionPreview = async () => {
+    if (!regionPreview) return
+
+    setIsRepaintingRegion(true)
+    try {
+      const url = await uploadTerrainImage(await encodeTerrainCanvas(regionPreview), terrainFolder, 'terrain')
+      const img = await loadImage(url)
+      applyTerrain(url, img, 'Repaint terrain region')
+      closeRegionTool()
+      toast.success('Terrain region repainted')
+    } catch (error) {
+      console.error('Error applying repainted terrain:', error)
+      toast.error('Failed to save the repainted terrain')
+    } finally {
+      setIsRepaintingRegion(false)
+    }
+  }
+
   const generateTerrain = async () => {
+    if (!isImageSizeSupported(mapSettings, 1)) {
+      toast.error('Map is too large to generate terrain for')
+      return
+    }
+
     setIsGeneratingTerrain(true)
     try {
       const biome = biomes.find(b => b.value === mapSettings.biome)
@@ -404,35 +654,86 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
       }
       
       prompt += ` Include varied terrain features like paths, clearings, water bodies, elevation changes, and natural landmarks that fit the theme. Style should be suitable for placing game locations like missions, shops, and landmarks. High detail, game-ready terrain texture with clear areas for location placement.`
-      
-      const { data } = await blink.ai.generateImage({
+
+      // Large maps are generated in tiles and stitched at the map's own size
+      const blobs = await generateTiledTerrain(mapSettings, {
         prompt,
-        size: '1024x1024',
-        quality: 'high',
-        n: 1
+        count: terrainCandidateCount,
+        onProgress: (completed, total) => setTerrainProgress({ completed, total })
       })
+      const urls = await Promise.all(blobs.map((blob, index) => uploadTerrainImage(blob, terrainFolder, `terrain-${index + 1}`)))
 
-      if (data && data[0]?.url) {
-        const imageUrl = data[0].url
-        setTerrainImageUrl(imageUrl)
-        
-        // Load the image
-        const img = new Image()
-        img.crossOrigin = 'anonymous'
-        img.onload = () => {
-          setTerrainImage(img)
+      try {
+        const images = await Promise.all(urls.map(url => loadImage(url)))
+        const candidates = urls.map((url, index) => ({ url, image: images[index] }))
+        if (candidates.length > 1) {
+          setTerrainCandidates(candidates)
+        } else {
+          applyTerrain(urls[0], images[0], terrainImage ? 'Regenerate terrain' : 'Generate terrain')
           toast.success('Terrain generated and loaded successfully!')
         }
-        img.onerror = () => {
-          toast.error('Failed to load generated terrain image')
-        }
-        img.src = imageUrl
-      } else {
-        toast.error('No terrain image was generated')
+      } catch {
+        toast.error('Failed to load generated terrain image')
       }
     } catch (error) {
       console.error('Error generating terrain:', error)
       toast.error('Failed to generate terrain')
+    } finally {
+      setIsGeneratingTerrain(false)
+      setTerrainProgress(null)
+    }
+  }
+
+  const favoriteTerrainUrls = new Set(terrainHistory.filter(entry => entry.favorite).map(entry => entry.url))
+
+  const pickTerrainCandidate = ({ url, image }: TerrainCandidate) => {
+    applyTerrain(url, image, terrainImage ? 'Regenerate terrain' : 'Generate terrain')
+    setTerrainCandidates(null)
+    toast.success('Terrain applied')
+  }
+
+  const toggleTerrainCandidateFavorite = ({ url }: TerrainCandidate) => {
+    setTerrainHistory(prev => setTerrainFavorite(prev, url, 'Terrain candidate', !favoriteTerrainUrls.has(url)))
+  }
+
+  const restoreTerrain = async (entry: TerrainHistoryEntry) => {
+    setIsRestoringTerrain(true)
+    try {
+      const img = await loadImage(entry.url)
+      applyTerrain(entry.url, img, 'Restore terrain')
+      toast.success('Terrain restored')
+    } catch (error) {
+      console.error('Error restoring terrain:', error)
+      toast.error('Failed to load terrain image')
+    } finally {
+      setIsRestoringTerrain(false)
+    }
+  }
+
+  // Bake the procedural preview into a full-size terrain image, without the network
+  const generateProceduralTerrain = async () => {
+    if (!isImageSizeSupported(mapSettings, 1)) {
+      toast.error('Map is too large to generate terrain for')
+      return
+    }
+
+    setIsGeneratingTerrain(true)
+    try {
+      const blob = await generateTerrainImage(mapSettings)
+      // Stored like AI terrain so the map record stays small; inlined only when offline
+      let url: string
+      try {
+        url = await uploadTerrainImage(blob, terrainFolder, 'terrain')
+      } catch (error) {
+        console.error('Error uploading procedural terrain:', error)
+        url = await blobToDataUrl(blob)
+      }
+      const img = await loadImage(url)
+      applyTerrain(url, img, terrainImage ? 'Regenerate procedural terrain' : 'Generate procedural terrain')
+      toast.success('Procedural terrain generated')
+    } catch (error) {
+      console.error('Error generating procedural terrain:', error)
+      toast.error('Failed to generate procedural terrain')
     } finally {
       setIsGeneratingTerrain(false)
     }
@@ -575,6 +876,8 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
 
   const generateLocations = async () => {
     setIsGeneratingLocations(true)
+    // Locations and their icons arrive in several steps but undo as one entry
+    const group = history.beginGroup('AI: Generate locations')
     try {
       const biome = biomes.find(b => b.value === mapSettings.biome)
       const terrain = terrainTypes.find(t => t.value === mapSettings.terrainType)
@@ -646,7 +949,12 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
         newLocations.push(location)
       })
 
-      setLocations(prev => [...prev, ...newLocations])
+      const newLocationIds = new Set(newLocations.map(location => location.id))
+      history.execute({
+        label: `Add ${newLocations.length} generated locations`,
+        redo: () => setLocations(prev => [...prev, ...newLocations]),
+        undo: () => setLocations(prev => prev.filter(loc => !newLocationIds.has(loc.id)))
+      }, { group })
       
       const terrainText = terrainImage ? ' with intelligent terrain analysis' : ''
       toast.success(`Generated ${newLocations.length} locations${terrainText}!`)
@@ -657,7 +965,7 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
         // Generate icons in batches to avoid overwhelming the API
         for (let i = 0; i < newLocations.length; i += 2) {
           const batch = newLocations.slice(i, i + 2)
-          await Promise.all(batch.map(location => generateIconForLocation(location)))
+          await Promise.all(batch.map(location => generateIconForLocation(location, group)))
           // Small delay between batches
           if (i + 2 < newLocations.length) {
             await new Promise(resolve => setTimeout(resolve, 1000))
@@ -669,11 +977,12 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
       console.error('Error generating locations:', error)
       toast.error('Failed to generate locations')
     } finally {
+      history.endGroup(group)
       setIsGeneratingLocations(false)
     }
   }
 
-  const generateIconForLocation = async (location: MapLocation) => {
+  const generateIconForLocation = async (location: MapLocation, group?: string) => {
     try {
       const biome = biomes.find(b => b.value === mapSettings.biome)
       const terrain = terrainTypes.find(t => t.value === mapSettings.terrainType)
@@ -703,11 +1012,13 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
 
       if (data && data[0]?.url) {
         // Update the location with the generated icon
-        setLocations(prev => prev.map(loc => 
-          loc.id === location.id 
-            ? { ...loc, iconUrl: data[0].url }
-            : loc
-        ))
+        const iconUrl = data[0].url
+        const previousIconUrl = location.iconUrl
+        history.execute({
+          label: `Generate icon for "${location.name}"`,
+          redo: () => patchLocation(location.id, { iconUrl }),
+          undo: () => patchLocation(location.id, { iconUrl: previousIconUrl })
+        }, { group })
         toast.success(`Icon generated for ${location.name}!`)
         return data[0].url
       }
@@ -735,49 +1046,345 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
       visible: true
     }
 
-    setLocations(prev => [...prev, location])
+    history.execute({
+      label: `Add "${location.name}"`,
+      redo: () => setLocations(prev => [...prev, location]),
+      undo: () => setLocations(prev => prev.filter(loc => loc.id !== location.id))
+    })
     setNewLocation({ type: 'landmark', name: '', description: '', x: 0, y: 0 })
     setIsAddingLocation(false)
     toast.success('Location added successfully!')
   }
 
   const deleteLocation = (id: string) => {
-    setLocations(prev => prev.filter(loc => loc.id !== id))
+    const index = locations.findIndex(loc => loc.id === id)
+    if (index === -1) return
+    const location = locations[index]
+
+    history.execute({
+      label: `Delete "${location.name}"`,
+      redo: () => setLocations(prev => prev.filter(loc => loc.id !== id)),
+      undo: () => setLocations(prev => [...prev.slice(0, index), location, ...prev.slice(index)])
+    })
     if (selectedLocation?.id === id) {
-      setSelectedLocation(null)
+      setSelectedLocationId(null)
     }
     toast.success('Location deleted')
   }
 
   const toggleLocationVisibility = (id: string) => {
-    setLocations(prev => prev.map(loc => 
-      loc.id === id ? { ...loc, visible: !loc.visible } : loc
+    const location = locations.find(loc => loc.id === id)
+    if (!location) return
+
+    const setVisible = (visible: boolean) => setLocations(prev => prev.map(loc => 
+      loc.id === id ? { ...loc, visible } : loc
     ))
+    history.execute({
+      label: `${location.visible ? 'Hide' : 'Show'} "${location.name}"`,
+      redo: () => setVisible(!location.visible),
+      undo: () => setVisible(location.visible)
+    })
+  }
+
+  const clearAllLocations = () => {
+    const previous = locations
+    if (previous.length === 0) return
+
+    history.execute({
+      label: `Clear ${previous.length} locations`,
+      redo: () => setLocations([]),
+      undo: () => setLocations(previous)
+    })
+    setSelectedLocationId(null)
+    toast.success('All locations cleared', {
+      action: { label: 'Undo', onClick: undo }
+    })
   }
 
   const exportMap = () => {
-    const mapData = {
+    const mapData = buildMapFile({
+      name: mapName,
+      description: mapDescription,
       settings: mapSettings,
-      locations: locations,
-      metadata: {
-        createdBy: user.id,
-        createdAt: new Date().toISOString(),
-        version: '1.0'
-      }
-    }
+      locations,
+      terrainImageUrl,
+      locationTypeDistribution
+    }, user.id)
 
     const blob = new Blob([JSON.stringify(mapData, null, 2)], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = 'map-data.json'
-    document.body.appendChild(a)
-    a.click()
-    URL.revokeObjectURL(url)
-    document.body.removeChild(a)
+    downloadBlob(blob, `${toFileName(mapName)}.json`)
     toast.success('Map exported successfully!')
   }
 
+  const exportImage = async (options: ImageExportOptions) => {
+    try {
+      const blob = await renderMapImage(mapSettings, locations, terrainImageUrl, options)
+      downloadBlob(blob, `${toFileName(mapName)}.${options.format === 'image/png' ? 'png' : 'jpg'}`)
+      toast.success('Map image exported successfully!')
+    } catch (error) {
+      console.error('Error exporting image:', error)
+      toast.error('Failed to export map image')
+    }
+  }
+
+  const exportPdf = async (options: PdfAtlasOptions) => {
+    try {
+      const blob = await createPdfAtlas(mapName, mapSettings, locations, terrainImageUrl, options)
+      downloadBlob(blob, `${toFileName(mapName)}-atlas.pdf`)
+      toast.success('Map atlas exported successfully!')
+    } catch (error) {
+      console.error('Error exporting PDF:', error)
+      toast.error('Failed to export map atlas')
+    }
+  }
+
+  const exportSvg = async () => {
+    try {
+      const svg = await renderMapSvg(mapSettings, locations, terrainImageUrl, {
+        includeGrid: mapSettings.showGrid,
+        includeLabels: true,
+        includeHidden: false
+      })
+      downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), `${toFileName(mapName)}.svg`)
+      toast.success('Map SVG exported successfully!')
+    } catch (error) {
+      console.error('Error exporting SVG:', error)
+      toast.error('Failed to export map SVG')
+    }
+  }
+
+  const exportTiled = (format: 'tmx' | 'json') => {
+    const tiledMap = buildTiledMap({
+      name: mapName,
+      description: mapDescription,
+      settings: mapSettings,
+      locations,
+      terrainImage: terrainImageUrl
+    })
+    const blob = format === 'tmx'
+      ? new Blob([toTmx(tiledMap)], { type: 'application/xml' })
+      : new Blob([toTiledJson(tiledMap)], { type: 'application/json' })
+    downloadBlob(blob, `${toFileName(mapName)}.${format === 'tmx' ? 'tmx' : 'tmj'}`)
+    toast.success('Tiled map exported successfully!')
+  }
+
+  const exportGodot = async () => {
+    const stem = toFileName(mapName)
+    try {
+      // The scene references the terrain by project path, so ship the texture next to it
+      let terrainPath: string | null = null
+      if (terrainImageUrl) {
+        const terrain = await fetchImage(terrainImageUrl)
+        const terrainFile = `${stem}-terrain.${terrain.type === 'image/jpeg' ? 'jpg' : 'png'}`
+        downloadBlob(terrain, terrainFile)
+        terrainPath = `res://${terrainFile}`
+      }
+
+      const scene = buildGodotScene({
+        name: mapName,
+        description: mapDescription,
+        settings: mapSettings,
+        locations,
+        terrainPath
+      })
+      downloadBlob(new Blob([scene], { type: 'text/plain' }), `${stem}.tscn`)
+      toast.success('Godot scene exported! Copy the files into your project root.')
+    } catch (error) {
+      console.error('Error exporting Godot scene:', error)
+      toast.error('Failed to export Godot scene')
+    }
+  }
+
+  const exportUnity = () => {
+    const data = buildUnityMapData({
+      name: mapName,
+      description: mapDescription,
+      settings: mapSettings,
+      locations,
+      terrainImageUrl
+    })
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+    downloadBlob(blob, `${toFileName(mapName)}.unity.json`)
+    toast.success('Unity map data exported successfully!')
+  }
+
+  const exportBundle = async () => {
+    try {
+      const { blob, missing } = await createMapBundle({
+        name: mapName,
+        description: mapDescription,
+        settings: mapSettings,
+        locations,
+        terrainImageUrl,
+        locationTypeDistribution
+      }, user.id)
+      downloadBlob(blob, `${toFileName(mapName)}.zip`)
+
+      if (missing.length > 0) {
+        toast.warning(`Bundle exported, but ${missing.length} image${missing.length > 1 ? 's' : ''} could not be downloaded and still link online`)
+      } else {
+        toast.success('Map bundle exported successfully!')
+      }
+    } catch (error) {
+      console.error('Error exporting bundle:', error)
+      toast.error('Failed to export map bundle')
+    }
+  }
+
+  const exportCsv = () => {
+    const blob = new Blob([locationsToCsv(locations, mapSettings)], { type: 'text/csv' })
+    downloadBlob(blob, `${toFileName(mapName)}-locations.csv`)
+    toast.success(`Exported ${locations.length} locations to CSV`)
+  }
+
+  // Remembered with the map rather than recorded as an edit, so it is not undoable
+  const rememberGeoBounds = (bounds: GeoBounds) => {
+    setMapSettings(prev => ({ ...prev, geoBounds: bounds }))
+  }
+
+  const exportGeoJson = (bounds: GeoBounds) => {
+    rememberGeoBounds(bounds)
+    const collection = locationsToGeoJson(mapName, locations.map(toPlainLocation), mapSettings, bounds)
+    const blob = new Blob([JSON.stringify(collection, null, 2)], { type: 'application/geo+json' })
+    downloadBlob(blob, `${toFileName(mapName)}.geojson`)
+    toast.success(`Exported ${locations.length} locations to GeoJSON`)
+  }
+
+  const exportWiki = async (format: 'html' | 'markdown') => {
+    try {
+      const visibleLocations = locations.filter(location => location.visible)
+      const mapImage = await renderMapImage(mapSettings, visibleLocations, terrainImageUrl, {
+        format: 'image/png',
+        scale: isImageSizeSupported(mapSettings, 2) ? 2 : 1,
+        dpi: 144,
+        quality: 1,
+        includeGrid: mapSettings.showGrid,
+        includeLabels: true,
+        includeHidden: false
+      })
+      const source = {
+        name: mapName,
+        description: mapDescription,
+        settings: mapSettings,
+        locations: visibleLocations.map(toPlainLocation),
+        mapImage
+      }
+      const { blob, missing } = format === 'html'
+        ? await createHtmlSite(source)
+        : await createMarkdownVault(source)
+      downloadBlob(blob, `${toFileName(mapName)}-${format === 'html' ? 'site' : 'obsidian'}.zip`)
+
+      if (missing.length > 0) {
+        toast.warning(`Wiki exported, but ${missing.length} icon${missing.length > 1 ? 's' : ''} could not be downloaded and still link online`)
+      } else {
+        toast.success('Map wiki exported successfully!')
+      }
+    } catch (error) {
+      console.error('Error exporting wiki:', error)
+      toast.error('Failed to export map wiki')
+    }
+  }
+
+  const exportUnityScript = () => {
+    downloadBlob(new Blob([unityScriptableObjectSource], { type: 'text/plain' }), UNITY_SCRIPT_FILE_NAME)
+  }
+
+  const importCsvLocations = (drafts: CsvLocationDraft[], autoPlace: boolean) => {
+    const terrainAnalysis = analyzeTerrainForPlacement()
+    const placed: MapLocation[] = []
+    drafts.forEach(draft => {
+      if (hasCoordinates(draft)) {
+        placed.push({ ...draft, ...clampToMap(draft, mapSettings) })
+      } else if (autoPlace) {
+        const placement = findOptimalPlacement(draft.type, [...locations, ...placed], terrainAnalysis)
+        placed.push({ ...draft, ...placement })
+      }
+    })
+
+    const added = mergeLocations(locations, placed).slice(locations.length)
+    const addedIds = new Set(added.map(location => location.id))
+    history.execute({
+      label: `Import ${added.length} locations from CSV`,
+      redo: () => setLocations(prev => [...prev, ...added]),
+      undo: () => setLocations(prev => prev.filter(loc => !addedIds.has(loc.id)))
+    })
+    toast.success(`Imported ${added.length} locations from CSV`)
+  }
+
+  const importGeoJsonLocations = (imported: MapLocation[], bounds: GeoBounds) => {
+    rememberGeoBounds(bounds)
+    const added = mergeLocations(locations, imported).slice(locations.length)
+    const addedIds = new Set(added.map(location => location.id))
+    history.execute({
+      label: `Import ${added.length} locations from GeoJSON`,
+      redo: () => setLocations(prev => [...prev, ...added]),
+      undo: () => setLocations(prev => prev.filter(loc => !addedIds.has(loc.id)))
+    })
+    toast.success(`Imported ${added.length} locations from GeoJSON`)
+  }
+
+  const importMap = async (imported: MapFile, mode: ImportMode) => {
+    // Bundles inline their images; merges only take the locations
+    let file = mode === 'merge' ? { ...imported, terrainImageUrl: null } : imported
+    try {
+      file = await uploadInlineImages(file, importFolder)
+    } catch (error) {
+      console.error('Error uploading imported images:', error)
+      toast.warning('Imported images could not be uploaded and are stored in the map itself')
+    }
+
+    if (mode === 'merge') {
+      const added = mergeLocations(locations, file.locations).slice(locations.length)
+      const addedIds = new Set(added.map(location => location.id))
+      history.execute({
+        label: `Merge ${added.length} locations from "${file.name}"`,
+        redo: () => setLocations(prev => [...prev, ...added]),
+        undo: () => setLocations(prev => prev.filter(loc => !addedIds.has(loc.id)))
+      })
+      toast.success(`Merged ${file.locations.length} locations into the map`)
+      return
+    }
+
+    let image: HTMLImageElement | null = null
+    if (file.terrainImageUrl) {
+      try {
+        image = await loadImage(file.terrainImageUrl)
+      } catch {
+        toast.error('Failed to load imported terrain image')
+      }
+    }
+
+    const previous = {
+      settings: mapSettings,
+      locations,
+      description: mapDescription,
+      distribution: locationTypeDistribution,
+      terrainImageUrl,
+      terrainImage
+    }
+    history.execute({
+      label: `Import "${file.name}"`,
+      redo: () => {
+        setMapSettings(file.settings)
+        setLocations(file.locations)
+        setMapDescription(file.description)
+        setLocationTypeDistribution(file.locationTypeDistribution)
+        setTerrainImageUrl(file.terrainImageUrl)
+        setTerrainImage(image)
+      },
+      undo: () => {
+        setMapSettings(previous.settings)
+        setLocations(previous.locations)
+        setMapDescription(previous.description)
+        setLocationTypeDistribution(previous.distribution)
+        setTerrainImageUrl(previous.terrainImageUrl)
+        setTerrainImage(previous.terrainImage)
+      }
+    })
+    setSelectedLocationId(null)
+    toast.success(`Imported "${file.name}"`)
+  }
+
   const filteredLocations = locations.filter(location => {
     const matchesSearch = location.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          location.description.toLowerCase().includes(searchTerm.toLowerCase())
@@ -792,11 +1399,21 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
         <div className="max-w-full px-4 sm:px-6 lg:px-8">
           <div className="flex items-center justify-between h-16">
             <div className="flex items-center gap-3">
+              <Button onClick={handleBackToMaps} variant="ghost" size="sm" title="Back to My Maps">
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
               <div className="h-8 w-8 bg-primary rounded-lg flex items-center justify-center">
                 <Map className="h-5 w-5 text-primary-foreground" />
               </div>
               <div>
-                <h1 className="text-xl font-semibold">Interactive Map Maker</h1>
+                <Input
+                  value={mapName}
+                  onChange={(e) => setMapName(e.target.value)}
+                  onBlur={() => !mapName.trim() && setMapName('Untitled Map')}
+                  disabled={!isMapLoaded}
+                  className="h-7 px-1 -ml-1 text-lg font-semibold border-transparent bg-transparent shadow-none hover:border-input focus-visible:border-input"
+                  aria-label="Map name"
+                />
                 <p className="text-sm text-muted-foreground">AI-Powered World Builder</p>
               </div>
             </div>
@@ -805,10 +1422,110 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                 <Sparkles className="h-3 w-3 mr-1" />
                 AI Powered
               </Badge>
-              <Button onClick={exportMap} variant="outline" size="sm">
-                <Download className="h-4 w-4 mr-2" />
-                Export
+              <Button
+                onClick={saveCurrentMap}
+                disabled={!isMapLoaded || saveStatus === 'saving'}
+                variant="outline"
+                size="sm"
+              >
+                {saveStatus === 'saving' ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : saveStatus === 'saved' ? (
+                  <Check className="h-4 w-4 mr-2" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' ? 'Saved' : 'Save'}
               </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm" disabled={!isMapLoaded}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => setIsImportDialogOpen(true)}>
+                    <FileJson className="h-4 w-4 mr-2" />
+                    Map File (JSON/ZIP)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setIsImportCsvDialogOpen(true)}>
+                    <Sheet className="h-4 w-4 mr-2" />
+                    Locations (CSV)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setGeoJsonDialogMode('import')}>
+                    <Globe className="h-4 w-4 mr-2" />
+                    Locations (GeoJSON)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="outline" size="sm">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={exportMap}>
+                    <FileJson className="h-4 w-4 mr-2" />
+                    Map Data (JSON)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={exportBundle}>
+                    <FileArchive className="h-4 w-4 mr-2" />
+                    Project Bundle (ZIP)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={exportCsv}>
+                    <Sheet className="h-4 w-4 mr-2" />
+                    Locations (CSV)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setGeoJsonDialogMode('export')}>
+                    <Globe className="h-4 w-4 mr-2" />
+                    Locations (GeoJSON)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setIsExportImageDialogOpen(true)}>
+                    <ImageDown className="h-4 w-4 mr-2" />
+                    Image (PNG/JPEG)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={exportSvg}>
+                    <PenTool className="h-4 w-4 mr-2" />
+                    Vector (SVG)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setIsExportPdfDialogOpen(true)}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    Print Atlas (PDF)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => exportWiki('html')}>
+                    <BookOpen className="h-4 w-4 mr-2" />
+                    Wiki Site (HTML)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => exportWiki('markdown')}>
+                    <BookOpen className="h-4 w-4 mr-2" />
+                    Obsidian Vault (Markdown)
+                  </DropdownMenuItem>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onClick={() => exportTiled('tmx')}>
+                    <Grid3X3 className="h-4 w-4 mr-2" />
+                    Tiled Map (TMX)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => exportTiled('json')}>
+                    <Grid3X3 className="h-4 w-4 mr-2" />
+                    Tiled Map (JSON)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={exportGodot}>
+                    <Gamepad2 className="h-4 w-4 mr-2" />
+                    Godot 4 Scene (.tscn)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={exportUnity}>
+                    <Box className="h-4 w-4 mr-2" />
+                    Unity Map Data (JSON)
+                  </DropdownMenuItem>
+                  <DropdownMenuItem onClick={exportUnityScript}>
+                    <FileCode className="h-4 w-4 mr-2" />
+                    Unity ScriptableObject (C#)
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
               <div className="text-sm text-muted-foreground">
                 Welcome, {user.displayName || user.email}
               </div>
@@ -837,7 +1554,7 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                       <Input
                         type="number"
                         value={mapSettings.width}
-                        onChange={(e) => setMapSettings(prev => ({ ...prev, width: parseInt(e.target.value) || 1200 }))}
+                        onChange={(e) => updateMapSettings({ width: parseInt(e.target.value) || 1200 }, 'Change map width')}
                         className="h-8"
                       />
                     </div>
@@ -846,7 +1563,7 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                       <Input
                         type="number"
                         value={mapSettings.height}
-                        onChange={(e) => setMapSettings(prev => ({ ...prev, height: parseInt(e.target.value) || 800 }))}
+                        onChange={(e) => updateMapSettings({ height: parseInt(e.target.value) || 800 }, 'Change map height')}
                         className="h-8"
                       />
                     </div>
@@ -854,7 +1571,7 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                   
                   <div>
                     <Label className="text-xs">Terrain Type</Label>
-                    <Select value={mapSettings.terrainType} onValueChange={(value: any) => setMapSettings(prev => ({ ...prev, terrainType: value }))}>
+                    <Select value={mapSettings.terrainType} onValueChange={(value: any) => updateMapSettings({ terrainType: value }, 'Change terrain type')}>
                       <SelectTrigger className="h-8">
                         <SelectValue />
                       </SelectTrigger>
@@ -873,7 +1590,7 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
 
                   <div>
                     <Label className="text-xs">Biome</Label>
-                    <Select value={mapSettings.biome} onValueChange={(value: any) => setMapSettings(prev => ({ ...prev, biome: value }))}>
+                    <Select value={mapSettings.biome} onValueChange={(value: any) => updateMapSettings({ biome: value }, 'Change biome')}>
                       <SelectTrigger className="h-8">
                         <SelectValue />
                       </SelectTrigger>
@@ -895,15 +1612,34 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                     <Label className="text-xs">Show Grid</Label>
                     <Switch
                       checked={mapSettings.showGrid}
-                      onCheckedChange={(checked) => setMapSettings(prev => ({ ...prev, showGrid: checked }))}
+                      onCheckedChange={(checked) => updateMapSettings({ showGrid: checked }, checked ? 'Show grid' : 'Hide grid')}
                     />
                   </div>
 
+                  <div>
+                    <Label className="text-xs">Grid Type</Label>
+                    <Select value={mapSettings.gridType} onValueChange={(value: any) => updateMapSettings({ gridType: value }, 'Change grid type')}>
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {gridTypes.map(gridType => (
+                          <SelectItem key={gridType.value} value={gridType.value}>
+                            <div className="flex items-center gap-2">
+                              <gridType.icon className="h-3 w-3" />
+                              {gridType.label}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <div>
                     <Label className="text-xs">Grid Size: {mapSettings.gridSize}px</Label>
                     <Slider
                       value={[mapSettings.gridSize]}
-                      onValueChange={([value]) => setMapSettings(prev => ({ ...prev, gridSize: value }))}
+                      onValueChange={([value]) => updateMapSettings({ gridSize: value }, 'Change grid size')}
                       min={20}
                       max={100}
                       step={10}
@@ -913,6 +1649,130 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                 </CardContent>
               </Card>
 
+              {/* Procedural Terrain */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm flex items-center gap-2">
+                    <MountainSnow className="h-4 w-4" />
+                    Procedural Terrain
+                  </CardTitle>
+                  <CardDescription className="text-xs">
+                    {terrainImage
+                      ? 'Generate to replace the terrain image with these settings'
+                      : 'Previewed on the map until you generate an image'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div>
+                    <Label className="text-xs">Seed</Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        value={mapSettings.seed}
+                        onChange={(e) => {
+                          const seed = Math.floor(Number(e.target.value))
+                          if (Number.isFinite(seed) && seed >= 0) updateMapSettings({ seed }, 'Change terrain seed')
+                        }}
+                        className="h-8"
+                      />
+                      <Button
+                        onClick={() => updateMapSettings({ seed: randomSeed() }, 'Randomize terrain seed')}
+                        size="sm"
+                        variant="outline"
+                        title="Random seed"
+                      >
+                        <Dices className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <div>
+                    <Label className="text-xs">Land Shape</Label>
+                    <Select value={mapSettings.landShape} onValueChange={(value: any) => updateMapSettings({ landShape: value }, 'Change land shape')}>
+                      <SelectTrigger className="h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {landShapes.map(shape => (
+                          <SelectItem key={shape.value} value={shape.value}>
+                            <div className="flex items-center gap-2">
+                              <shape.icon className="h-3 w-3" />
+                              {shape.label}
+                            </div>
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label className="text-xs">Sea Level: {Math.round(mapSettings.seaLevel * 100)}%</Label>
+                    <Slider
+                      value={[Math.round(mapSettings.seaLevel * 100)]}
+                      onValueChange={([value]) => updateMapSettings({ seaLevel: value / 100 }, 'Change sea level')}
+                      min={0}
+                      max={90}
+                      step={5}
+                      className="mt-2"
+                    />
+                  </div>
+
+                  <div>
+                    <Label className="text-xs">Mountains: {Math.round(mapSettings.mountainFrequency * 100)}%</Label>
+                    <Slider
+                      value={[Math.round(mapSettings.mountainFrequency * 100)]}
+                      onValueChange={([value]) => updateMapSettings({ mountainFrequency: value / 100 }, 'Change mountain frequency')}
+                      min={0}
+                      max={100}
+                      step={5}
+                      className="mt-2"
+                    />
+                  </div>
+
+                  <div>
+                    <Label className="text-xs">Erosion Passes: {mapSettings.erosionPasses}</Label>
+                    <Slider
+                      value={[mapSettings.erosionPasses]}
+                      onValueChange={([value]) => updateMapSettings({ erosionPasses: value }, 'Change erosion passes')}
+                      min={0}
+                      max={20}
+                      step={1}
+                      className="mt-2"
+                    />
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Button
+                      onClick={generateProceduralTerrain}
+                      disabled={isGeneratingTerrain}
+                      className="flex-1 h-8"
+                      size="sm"
+                      variant="outline"
+                    >
+                      {isGeneratingTerrain ? (
+                        <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+                      ) : (
+                        <MountainSnow className="h-3 w-3 mr-2" />
+                      )}
+                      Generate Offline
+                    </Button>
+                    {terrainImage && (
+                      <Button
+                        onClick={() => applyTerrain(null, null, 'Remove terrain image')}
+                        disabled={isGeneratingTerrain}
+                        size="sm"
+                        variant="outline"
+                        className="h-8"
+                        title="Remove the terrain image and show the preview"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+
               {/* Map Description */}
               <Card>
                 <CardHeader className="pb-3">
@@ -981,7 +1841,10 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
-                    <div className="aspect-square bg-muted rounded-lg overflow-hidden">
+                    <div
+                      className="bg-muted rounded-lg overflow-hidden"
+                      style={{ aspectRatio: `${mapSettings.width} / ${mapSettings.height}` }}
+                    >
                       <img
                         src={terrainImageUrl}
                         alt="Generated terrain"
@@ -995,6 +1858,29 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                 </Card>
               )}
 
+              {/* Terrain History */}
+              {terrainHistory.length > 0 && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-sm flex items-center gap-2">
+                      <Images className="h-4 w-4" />
+                      Terrain History
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <TerrainHistoryList
+                      entries={terrainHistory}
+                      currentUrl={terrainImageUrl}
+                      settings={mapSettings}
+                      isBusy={isGeneratingTerrain || isRestoringTerrain || !!regionPreview}
+                      onRestore={restoreTerrain}
+                      onToggleFavorite={(entry) => setTerrainHistory(prev => setTerrainFavorite(prev, entry.url, entry.label, !entry.favorite))}
+                      onRemove={(entry) => setTerrainHistory(prev => removeTerrainHistoryEntry(prev, entry.id))}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
               {/* AI Generation */}
               <Card>
                 <CardHeader className="pb-3">
@@ -1004,6 +1890,20 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                   </CardTitle>
                 </CardHeader>
                 <CardContent className="space-y-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <Label className="text-xs">Candidates</Label>
+                    <Select value={String(terrainCandidateCount)} onValueChange={(value) => setTerrainCandidateCount(Number(value))}>
+                      <SelectTrigger className="h-8 w-20">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {[1, 2, 3, 4].map(count => (
+                          <SelectItem key={count} value={String(count)}>{count}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
                   <Button
                     onClick={generateTerrain}
                     disabled={isGeneratingTerrain}
@@ -1017,6 +1917,27 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                     )}
                     {terrainImage ? 'Regenerate Terrain' : 'Generate Terrain'}
                   </Button>
+
+                  <Button
+                    onClick={() => setRegionTool('rectangle')}
+                    disabled={isGeneratingTerrain || !!regionTool}
+                    className="w-full h-8"
+                    size="sm"
+                    variant="outline"
+                  >
+                    <Paintbrush className="h-3 w-3 mr-2" />
+                    Repaint Region
+                  </Button>
+
+                  {terrainProgress && terrainProgress.total > 1 && (
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between text-xs text-muted-foreground">
+                        <span>Generating terrain tiles</span>
+                        <span>{terrainProgress.completed} / {terrainProgress.total}</span>
+                      </div>
+                      <Progress value={terrainProgress.completed / terrainProgress.total * 100} className="h-1" />
+                    </div>
+                  )}
                   
                   <Button
                     onClick={generateLocations}
@@ -1134,26 +2055,43 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
           <div className="border-b bg-card/50 p-2 flex items-center justify-between">
             <div className="flex items-center gap-2">
               <Button
-                onClick={() => setZoom(prev => Math.min(prev + 0.1, 3))}
+                onClick={() => zoomBy(ZOOM_STEP)}
                 size="sm"
                 variant="outline"
+                title="Zoom in (+)"
               >
                 <ZoomIn className="h-3 w-3" />
               </Button>
               <Button
-                onClick={() => setZoom(prev => Math.max(prev - 0.1, 0.1))}
+                onClick={() => zoomBy(1 / ZOOM_STEP)}
                 size="sm"
                 variant="outline"
+                title="Zoom out (-)"
               >
                 <ZoomOut className="h-3 w-3" />
               </Button>
               <Button
-                onClick={() => {
-                  setZoom(1)
-                  setPanOffset({ x: 0, y: 0 })
-                }}
+                onClick={zoomToFit}
                 size="sm"
                 variant="outline"
+                title="Zoom to fit (0)"
+              >
+                <Maximize className="h-3 w-3" />
+              </Button>
+              <Button
+                onClick={zoomToSelection}
+                disabled={!selectedLocation}
+                size="sm"
+                variant="outline"
+                title="Zoom to selection (F)"
+              >
+                <LocateFixed className="h-3 w-3" />
+              </Button>
+              <Button
+                onClick={() => setViewport({ pan: { x: 0, y: 0 }, zoom: 1 })}
+                size="sm"
+                variant="outline"
+                title="Reset view"
               >
                 <RotateCcw className="h-3 w-3" />
               </Button>
@@ -1164,6 +2102,33 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
             </div>
             
             <div className="flex items-center gap-2">
+              <Button
+                onClick={undo}
+                disabled={!history.canUndo}
+                size="sm"
+                variant="outline"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="h-3 w-3" />
+              </Button>
+              <Button
+                onClick={redo}
+                disabled={!history.canRedo}
+                size="sm"
+                variant="outline"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="h-3 w-3" />
+              </Button>
+              <Button
+                onClick={() => setShowHistory(!showHistory)}
+                size="sm"
+                variant={showHistory ? "default" : "outline"}
+              >
+                <History className="h-3 w-3 mr-1" />
+                History
+              </Button>
+              <Separator orientation="vertical" className="h-6" />
               <Button
                 onClick={() => setShowLayers(!showLayers)}
                 size="sm"
@@ -1172,6 +2137,14 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                 <Layers className="h-3 w-3 mr-1" />
                 Layers
               </Button>
+              <Button
+                onClick={() => updatePreferences({ showMinimap: !preferences.showMinimap })}
+                size="sm"
+                variant={preferences.showMinimap ? "default" : "outline"}
+              >
+                <Map className="h-3 w-3 mr-1" />
+                Minimap
+              </Button>
             </div>
           </div>
 
@@ -1179,25 +2152,84 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
           <div className="flex-1 overflow-hidden bg-muted/20 relative">
             <canvas
               ref={canvasRef}
-              width={800}
-              height={600}
-              className="cursor-crosshair"
+              className={`absolute inset-0 h-full w-full touch-none ${draggedLocation ? 'cursor-grabbing' : 'cursor-crosshair'}`}
               onClick={handleCanvasClick}
               onMouseDown={handleMouseDown}
               onMouseMove={handleMouseMove}
               onMouseUp={handleMouseUp}
-              onMouseLeave={handleMouseUp}
+              onMouseLeave={handleMouseLeave}
             />
-            
+
+            {preferences.showMinimap && (
+              <Minimap
+                settings={mapSettings}
+                terrain={regionPreview ?? terrainImage}
+                locations={locations}
+                getViewport={getViewport}
+                setViewport={setViewport}
+                onViewportChange={onViewportChange}
+              />
+            )}
+
+            {!isMapLoaded && (
+              <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            )}
+
+            {draggedLocation && (
+              <div className="absolute top-4 left-4 bg-card border rounded-lg p-3 shadow-lg">
+                <div className="text-sm font-medium">Moving "{draggedLocation.name}"</div>
+                <div className="text-xs text-muted-foreground">
+                  ({Math.round(draggedLocation.x)}, {Math.round(draggedLocation.y)})
+                  {mapSettings.showGrid && ' • snapped to grid, hold Alt for free placement'}
+                </div>
+                <div className="text-xs text-muted-foreground">Press Esc to cancel</div>
+              </div>
+            )}
+
+            {regionTool && (
+              <div className="absolute top-4 left-4">
+                <RegionRepaintPanel
+                  tool={regionTool}
+                  onToolChange={(tool) => {
+                    setRegionTool(tool)
+                    setRegion(null)
+                  }}
+                  hasRegion={!!region}
+                  prompt={regionPrompt}
+                  onPromptChange={setRegionPrompt}
+                  hasPreview={!!regionPreview}
+                  isBusy={isRepaintingRegion}
+                  onRepaint={repaintRegion}
+                  onApply={applyRegionPreview}
+                  onDiscard={() => setRegionPreview(null)}
+                  onClose={closeRegionTool}
+                />
+              </div>
+            )}
+
             {isAddingLocation && (
               <div className="absolute top-4 left-4 bg-card border rounded-lg p-3 shadow-lg">
                 <div className="text-sm font-medium">Adding Location</div>
                 <div className="text-xs text-muted-foreground">
                   Click on the map to place "{newLocation.name}"
+                  {mapSettings.showGrid && ' • snapped to grid, hold Alt for free placement'}
                 </div>
               </div>
             )}
 
+            {showHistory && (
+              <div className="absolute top-4 right-4">
+                <HistoryPanel
+                  past={history.past}
+                  future={history.future}
+                  onJumpTo={history.jumpTo}
+                  onClose={() => setShowHistory(false)}
+                />
+              </div>
+            )}
+
             {/* Bottom Right Edit Controls */}
             <div className="absolute bottom-4 right-4 flex flex-col gap-2">
               <Button
@@ -1227,17 +2259,7 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                     {selectedLocation && (
                       <>
                         <Button
-                          onClick={() => {
-                            setNewLocation({
-                              type: selectedLocation.type,
-                              name: selectedLocation.name,
-                              description: selectedLocation.description,
-                              x: selectedLocation.x,
-                              y: selectedLocation.y
-                            })
-                            setIsAddingLocation(true)
-                            deleteLocation(selectedLocation.id)
-                          }}
+                          onClick={() => setShowLayers(true)}
                           size="sm"
                           variant="outline"
                           className="w-full justify-start h-8"
@@ -1280,11 +2302,7 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                     <Separator />
                     
                     <Button
-                      onClick={() => {
-                        setLocations([])
-                        setSelectedLocation(null)
-                        toast.success('All locations cleared')
-                      }}
+                      onClick={clearAllLocations}
                       size="sm"
                       variant="outline"
                       className="w-full justify-start h-8 text-destructive hover:text-destructive"
@@ -1314,6 +2332,21 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
         {/* Right Sidebar - Layers & Locations */}
         {showLayers && (
           <div className="w-80 border-l bg-card/50 overflow-hidden flex flex-col">
+            {selectedLocation && (
+              <div className="border-b max-h-[50%] overflow-y-auto">
+                <div className="p-4">
+                  <LocationInspector
+                    key={selectedLocation.id}
+                    location={selectedLocation}
+                    settings={mapSettings}
+                    onChange={(changes, label) => updateLocation(selectedLocation.id, changes, label)}
+                    onDelete={() => deleteLocation(selectedLocation.id)}
+                    onGenerateIcon={() => generateIconForLocation(selectedLocation)}
+                    onClose={() => setSelectedLocationId(null)}
+                  />
+                </div>
+              </div>
+            )}
             <div className="border-b p-4">
               <div className="flex items-center gap-2 mb-3">
                 <Layers className="h-4 w-4" />
@@ -1365,7 +2398,7 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                       className={`p-3 rounded-lg border cursor-pointer transition-colors ${
                         isSelected ? 'bg-primary/10 border-primary' : 'hover:bg-muted/50'
                       }`}
-                      onClick={() => setSelectedLocation(location)}
+                      onClick={() => setSelectedLocationId(location.id)}
                     >
                       <div className="flex items-start justify-between">
                         <div className="flex items-start gap-2 flex-1 min-w-0">
@@ -1380,7 +2413,7 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
                                 {locationType?.label}
                               </Badge>
                               <span className="text-xs text-muted-foreground">
-                                ({Math.round(location.x)}, {Math.round(location.y)})
+                                Cell {getGridReference(location, mapSettings)}
                               </span>
                             </div>
                           </div>
@@ -1450,6 +2483,50 @@ export function MapMakerDashboard({ user }: MapMakerDashboardProps) {
           </div>
         )}
       </div>
+
+      <ImportMapDialog
+        open={isImportDialogOpen}
+        onOpenChange={setIsImportDialogOpen}
+        onImport={importMap}
+      />
+
+      <ImportCsvDialog
+        open={isImportCsvDialogOpen}
+        onOpenChange={setIsImportCsvDialogOpen}
+        onImport={importCsvLocations}
+      />
+
+      <GeoJsonDialog
+        mode={geoJsonDialogMode}
+        onClose={() => setGeoJsonDialogMode(null)}
+        settings={mapSettings}
+        onExport={exportGeoJson}
+        onImport={importGeoJsonLocations}
+      />
+
+      <ExportImageDialog
+        open={isExportImageDialogOpen}
+        onOpenChange={setIsExportImageDialogOpen}
+        settings={mapSettings}
+        onExport={exportImage}
+      />
+
+      <ExportPdfDialog
+        open={isExportPdfDialogOpen}
+        onOpenChange={setIsExportPdfDialogOpen}
+        settings={mapSettings}
+        onExport={exportPdf}
+      />
+
+      <TerrainCandidatesDialog
+        candidates={terrainCandidates}
+        settings={mapSettings}
+        locations={locations}
+        favoriteUrls={favoriteTerrainUrls}
+        onToggleFavorite={toggleTerrainCandidateFavorite}
+        onPick={pickTerrainCandidate}
+        onClose={() => setTerrainCandidates(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { useEffect, useRef } from 'react'
+import { paintMapOverview } from '../lib/map-thumbnail'
+import type { Point } from '../lib/grid'
+import type { ViewportListener } from '../lib/map-layers'
+import type { Size, Viewport } from '../lib/viewport'
+import type { MapLocation, MapSettings } from '../types/map'
+
+interface MinimapProps {
+  settings: MapSettings
+  terrain: CanvasImageSource | null
+  locations: MapLocation[]
+  getViewport: () => Viewport
+  setViewport: (viewport: Viewport) => void
+  onViewportChange: (listener: ViewportListener) => () => void
+}
+
+const MAX_WIDTH = 200
+const MAX_HEIGHT = 160
+
+export function Minimap({ settings, terrain, locations, getViewport, setViewport, onViewportChange }: MinimapProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const viewportRectRef = useRef<HTMLDivElement>(null)
+  // Main canvas size, kept from the last viewport change for recentering
+  const sizeRef = useRef<Size>({ width: 0, height: 0 })
+  // Offset between the grabbed point and the viewport center while dragging
+  const dragOffsetRef = useRef<Point | null>(null)
+
+  const scale = Math.min(MAX_WIDTH / settings.width, MAX_HEIGHT / settings.height)
+  const width = Math.round(settings.width * scale)
+  const height = Math.round(settings.height * scale)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+
+    const pixelRatio = window.devicePixelRatio || 1
+    canvas.width = Math.round(width * pixelRatio)
+    canvas.height = Math.round(height * pixelRatio)
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+    paintMapOverview(ctx, settings, locations, terrain, scale)
+  }, [settings, terrain, locations, scale, width, height])
+
+  // The viewport rectangle follows pans and zooms without re-rendering the component
+  useEffect(() => onViewportChange((viewport, size) => {
+    sizeRef.current = size
+    const rect = viewportRectRef.current
+    if (!rect) return
+
+    const left = Math.max(0, -viewport.pan.x * scale)
+    const top = Math.max(0, -viewport.pan.y * scale)
+    const right = Math.min(width, (size.width / viewport.zoom - viewport.pan.x) * scale)
+    const bottom = Math.min(height, (size.height / viewport.zoom - viewport.pan.y) * scale)
+
+    rect.style.display = right > left && bottom > top ? 'block' : 'none'
+    rect.style.left = `${left}px`
+    rect.style.top = `${top}px`
+    rect.style.width = `${right - left}px`
+    rect.style.height = `${bottom - top}px`
+  }), [onViewportChange, scale, width, height])
+
+  const toMapPoint = (event: React.PointerEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect()
+    return { x: (event.clientX - bounds.left) / scale, y: (event.clientY - bounds.top) / scale }
+  }
+
+  const centerOn = (point: Point) => {
+    const { zoom } = getViewport()
+    const size = sizeRef.current
+    setViewport({
+      zoom,
+      pan: { x: size.width / zoom / 2 - point.x, y: size.height / zoom / 2 - point.y }
+    })
+  }
+
+  const getViewCenter = () => {
+    const { pan, zoom } = getViewport()
+    const size = sizeRef.current
+    return { x: size.width / zoom / 2 - pan.x, y: size.height / zoom / 2 - pan.y }
+  }
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault()
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const point = toMapPoint(event)
+
+    // Grabbing the viewport rectangle drags it; clicking elsewhere jumps there first
+    if (event.target === viewportRectRef.current) {
+      const center = getViewCenter()
+      dragOffsetRef.current = { x: point.x - center.x, y: point.y - center.y }
+    } else {
+      dragOffsetRef.current = { x: 0, y: 0 }
+      centerOn(point)
+    }
+  }
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const offset = dragOffsetRef.current
+    if (!offset) return
+    const point = toMapPoint(event)
+    centerOn({ x: point.x - offset.x, y: point.y - offset.y })
+  }
+
+  const handlePointerUp = () => {
+    dragOffsetRef.current = null
+  }
+
+  return (
+    <div
+      className="absolute bottom-4 left-4 overflow-hidden rounded-md border bg-card shadow-lg touch-none cursor-pointer"
+      style={{ width, height }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      <canvas ref={canvasRef} className="block" style={{ width, height }} />
+      <div
+        ref={viewportRectRef}
+        className="absolute border-2 border-amber-400 bg-amber-400/10 cursor-move"
+      />
+    </div>
+  )
+}
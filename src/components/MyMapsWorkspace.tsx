@@ -0,0 +1,302 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent } from './ui/card'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Skeleton } from './ui/skeleton'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from './ui/alert-dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from './ui/dropdown-menu'
+import {
+  Map,
+  MapPin,
+  Plus,
+  MoreVertical,
+  Pencil,
+  Copy,
+  Trash2,
+  FolderOpen,
+  Loader2
+} from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  listMaps,
+  createMap,
+  renameMap,
+  duplicateMap,
+  deleteMap,
+  type MapSummary
+} from '../lib/map-storage'
+
+interface User {
+  id: string
+  email: string
+  displayName?: string
+}
+
+interface MyMapsWorkspaceProps {
+  user: User
+  onOpenMap: (mapId: string) => void
+}
+
+export function MyMapsWorkspace({ user, onOpenMap }: MyMapsWorkspaceProps) {
+  const [maps, setMaps] = useState<MapSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isCreating, setIsCreating] = useState(false)
+  const [renameTarget, setRenameTarget] = useState<MapSummary | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  const [deleteTarget, setDeleteTarget] = useState<MapSummary | null>(null)
+
+  const refreshMaps = useCallback(async () => {
+    try {
+      setMaps(await listMaps(user.id))
+    } catch (error) {
+      console.error('Error loading maps:', error)
+      toast.error('Failed to load your maps')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user.id])
+
+  useEffect(() => {
+    refreshMaps()
+  }, [refreshMaps])
+
+  const handleCreateMap = async () => {
+    setIsCreating(true)
+    try {
+      const map = await createMap(user.id)
+      onOpenMap(map.id)
+    } catch (error) {
+      console.error('Error creating map:', error)
+      toast.error('Failed to create map')
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const handleRenameMap = async () => {
+    if (!renameTarget) return
+    const name = renameValue.trim()
+    if (!name) {
+      toast.error('Please enter a map name')
+      return
+    }
+
+    try {
+      await renameMap(renameTarget.id, name)
+      setRenameTarget(null)
+      toast.success('Map renamed')
+      refreshMaps()
+    } catch (error) {
+      console.error('Error renaming map:', error)
+      toast.error('Failed to rename map')
+    }
+  }
+
+  const handleDuplicateMap = async (map: MapSummary) => {
+    try {
+      await duplicateMap(user.id, map.id)
+      toast.success(`Duplicated "${map.name}"`)
+      refreshMaps()
+    } catch (error) {
+      console.error('Error duplicating map:', error)
+      toast.error('Failed to duplicate map')
+    }
+  }
+
+  const handleDeleteMap = async () => {
+    if (!deleteTarget) return
+    try {
+      await deleteMap(deleteTarget.id)
+      toast.success(`Deleted "${deleteTarget.name}"`)
+      setDeleteTarget(null)
+      refreshMaps()
+    } catch (error) {
+      console.error('Error deleting map:', error)
+      toast.error('Failed to delete map')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b bg-card/50 backdrop-blur-sm sticky top-0 z-50">
+        <div className="max-w-full px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center gap-3">
+              <div className="h-8 w-8 bg-primary rounded-lg flex items-center justify-center">
+                <Map className="h-5 w-5 text-primary-foreground" />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold">My Maps</h1>
+                <p className="text-sm text-muted-foreground">Interactive Map Maker</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <Button onClick={handleCreateMap} disabled={isCreating} size="sm">
+                {isCreating ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4 mr-2" />
+                )}
+                New Map
+              </Button>
+              <div className="text-sm text-muted-foreground">
+                Welcome, {user.displayName || user.email}
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto p-4 sm:p-6 lg:p-8">
+        {isLoading ? (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+            {Array.from({ length: 4 }).map((_, index) => (
+              <Skeleton key={index} className="aspect-[4/3] rounded-lg" />
+            ))}
+          </div>
+        ) : maps.length === 0 ? (
+          <div className="text-center py-24 text-muted-foreground">
+            <Map className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <div className="text-lg font-medium text-foreground">No maps yet</div>
+            <div className="text-sm mb-6">Create your first map to start building your world</div>
+            <Button onClick={handleCreateMap} disabled={isCreating}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create Map
+            </Button>
+          </div>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+            {maps.map(map => (
+              <Card
+                key={map.id}
+                className="overflow-hidden cursor-pointer transition-colors hover:border-primary"
+                onClick={() => onOpenMap(map.id)}
+              >
+                <div className="aspect-[3/2] bg-muted flex items-center justify-center overflow-hidden">
+                  {map.thumbnail ? (
+                    <img src={map.thumbnail} alt={map.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <Map className="h-8 w-8 text-muted-foreground opacity-50" />
+                  )}
+                </div>
+                <CardContent className="p-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="font-medium text-sm truncate">{map.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        Updated {new Date(map.updatedAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild onClick={(e) => e.stopPropagation()}>
+                        <Button size="sm" variant="ghost" className="h-6 w-6 p-0">
+                          <MoreVertical className="h-3 w-3" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                        <DropdownMenuItem onClick={() => onOpenMap(map.id)}>
+                          <FolderOpen className="h-3 w-3 mr-2" />
+                          Open
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => {
+                            setRenameTarget(map)
+                            setRenameValue(map.name)
+                          }}
+                        >
+                          <Pencil className="h-3 w-3 mr-2" />
+                          Rename
+                        </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleDuplicateMap(map)}>
+                          <Copy className="h-3 w-3 mr-2" />
+                          Duplicate
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() => setDeleteTarget(map)}
+                          className="text-destructive focus:text-destructive"
+                        >
+                          <Trash2 className="h-3 w-3 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
+                  <div className="flex items-center gap-2 mt-2">
+                    <Badge variant="secondary" className="text-xs">
+                      <MapPin className="h-3 w-3 mr-1" />
+                      {map.locationCount}
+                    </Badge>
+                    {map.description && (
+                      <span className="text-xs text-muted-foreground truncate">{map.description}</span>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {/* Rename Dialog */}
+      <Dialog open={!!renameTarget} onOpenChange={(open) => !open && setRenameTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Map</DialogTitle>
+            <DialogDescription>Choose a new name for "{renameTarget?.name}"</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label className="text-xs">Name</Label>
+            <Input
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleRenameMap()}
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenameTarget(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleRenameMap}>Rename</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleteTarget?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently removes the map and all of its locations. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteMap}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,104 @@
+import { Button } from './ui/button'
+import { Textarea } from './ui/textarea'
+import { Check, Lasso, Loader2, Paintbrush, SquareDashed, Undo2, X } from 'lucide-react'
+import type { RegionTool } from '../lib/terrain-inpaint'
+
+interface RegionRepaintPanelProps {
+  tool: RegionTool
+  onToolChange: (tool: RegionTool) => void
+  hasRegion: boolean
+  prompt: string
+  onPromptChange: (prompt: string) => void
+  hasPreview: boolean
+  // A repaint or an apply is in flight
+  isBusy: boolean
+  onRepaint: () => void
+  onApply: () => void
+  onDiscard: () => void
+  onClose: () => void
+}
+
+const tools = [
+  { value: 'rectangle', label: 'Rectangle', icon: SquareDashed },
+  { value: 'lasso', label: 'Lasso', icon: Lasso }
+] as const
+
+export function RegionRepaintPanel({
+  tool,
+  onToolChange,
+  hasRegion,
+  prompt,
+  onPromptChange,
+  hasPreview,
+  isBusy,
+  onRepaint,
+  onApply,
+  onDiscard,
+  onClose
+}: RegionRepaintPanelProps) {
+  return (
+    <div className="bg-card border rounded-lg shadow-lg w-72 p-3 space-y-3">
+      <div className="flex items-center gap-2">
+        <Paintbrush className="h-3 w-3" />
+        <span className="text-sm font-medium">Repaint Region</span>
+        <Button onClick={onClose} disabled={isBusy} size="sm" variant="ghost" className="h-6 w-6 p-0 ml-auto">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {tools.map(option => (
+          <Button
+            key={option.value}
+            onClick={() => onToolChange(option.value)}
+            disabled={isBusy || hasPreview}
+            size="sm"
+            variant={tool === option.value ? 'default' : 'outline'}
+            className="h-8"
+          >
+            <option.icon className="h-3 w-3 mr-2" />
+            {option.label}
+          </Button>
+        ))}
+      </div>
+
+      {hasPreview ? (
+        <>
+          <div className="text-xs text-muted-foreground">
+            Previewing the repainted region. Locations are not changed.
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button onClick={onApply} disabled={isBusy} size="sm" className="h-8">
+              {isBusy ? <Loader2 className="h-3 w-3 mr-2 animate-spin" /> : <Check className="h-3 w-3 mr-2" />}
+              Apply
+            </Button>
+            <Button onClick={onDiscard} disabled={isBusy} size="sm" variant="outline" className="h-8">
+              <Undo2 className="h-3 w-3 mr-2" />
+              Discard
+            </Button>
+          </div>
+        </>
+      ) : hasRegion ? (
+        <>
+          <Textarea
+            value={prompt}
+            onChange={(e) => onPromptChange(e.target.value)}
+            placeholder="e.g., A ruined castle on a rocky hill"
+            rows={2}
+            className="text-xs"
+          />
+          <Button onClick={onRepaint} disabled={isBusy || !prompt.trim()} size="sm" className="w-full h-8">
+            {isBusy ? <Loader2 className="h-3 w-3 mr-2 animate-spin" /> : <Paintbrush className="h-3 w-3 mr-2" />}
+            Repaint
+          </Button>
+        </>
+      ) : (
+        <div className="text-xs text-muted-foreground">
+          Drag on the map to select the area to repaint
+        </div>
+      )}
+
+      <div className="text-xs text-muted-foreground">Press Esc to cancel</div>
+    </div>
+  )
+}
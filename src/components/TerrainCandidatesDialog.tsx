@@ -0,0 +1,102 @@
+import { useEffect, useRef } from 'react'
+import { Button } from './ui/button'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from './ui/dialog'
+import { Check, Star } from 'lucide-react'
+import { paintMapOverview } from '../lib/map-thumbnail'
+import type { MapLocation, MapSettings } from '../types/map'
+
+export interface TerrainCandidate {
+  url: string
+  image: HTMLImageElement
+}
+
+interface TerrainCandidatesDialogProps {
+  candidates: TerrainCandidate[] | null
+  settings: MapSettings
+  locations: MapLocation[]
+  favoriteUrls: Set<string>
+  onToggleFavorite: (candidate: TerrainCandidate) => void
+  onPick: (candidate: TerrainCandidate) => void
+  onClose: () => void
+}
+
+// Width of each candidate preview, in canvas pixels
+const PREVIEW_WIDTH = 480
+
+// The candidate with the map's locations on top, to judge how it fits them
+function CandidatePreview({ candidate, settings, locations }: {
+  candidate: TerrainCandidate
+  settings: MapSettings
+  locations: MapLocation[]
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+
+    const scale = PREVIEW_WIDTH / settings.width
+    canvas.width = PREVIEW_WIDTH
+    canvas.height = Math.max(1, Math.round(settings.height * scale))
+    paintMapOverview(ctx, settings, locations, candidate.image, scale)
+  }, [candidate, settings, locations])
+
+  return <canvas ref={canvasRef} className="w-full h-auto rounded-md bg-muted" />
+}
+
+export function TerrainCandidatesDialog({
+  candidates,
+  settings,
+  locations,
+  favoriteUrls,
+  onToggleFavorite,
+  onPick,
+  onClose
+}: TerrainCandidatesDialogProps) {
+  return (
+    <Dialog open={!!candidates} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Choose Terrain</DialogTitle>
+          <DialogDescription>
+            Compare the generated terrains with your locations. Starred ones are kept in the terrain history.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-h-[60vh] overflow-y-auto">
+          {candidates?.map((candidate, index) => {
+            const isFavorite = favoriteUrls.has(candidate.url)
+            return (
+              <div key={candidate.url} className="space-y-2">
+                <CandidatePreview candidate={candidate} settings={settings} locations={locations} />
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">Option {index + 1}</span>
+                  <Button
+                    onClick={() => onToggleFavorite(candidate)}
+                    size="sm"
+                    variant="ghost"
+                    className="h-7 w-7 p-0 ml-auto"
+                    title={isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                  >
+                    <Star className={`h-4 w-4 ${isFavorite ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+                  </Button>
+                  <Button onClick={() => onPick(candidate)} size="sm" className="h-7">
+                    <Check className="h-3 w-3 mr-2" />
+                    Use This
+                  </Button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose} variant="outline">
+            Keep Current Terrain
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,81 @@
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { RotateCcw, Star, X } from 'lucide-react'
+import type { MapSettings, TerrainHistoryEntry } from '../types/map'
+
+interface TerrainHistoryListProps {
+  entries: TerrainHistoryEntry[]
+  currentUrl: string | null
+  settings: MapSettings
+  // A terrain is being generated or restored
+  isBusy: boolean
+  onRestore: (entry: TerrainHistoryEntry) => void
+  onToggleFavorite: (entry: TerrainHistoryEntry) => void
+  onRemove: (entry: TerrainHistoryEntry) => void
+}
+
+export function TerrainHistoryList({
+  entries,
+  currentUrl,
+  settings,
+  isBusy,
+  onRestore,
+  onToggleFavorite,
+  onRemove
+}: TerrainHistoryListProps) {
+  return (
+    <div className="space-y-2">
+      {entries.map(entry => {
+        const isCurrent = entry.url === currentUrl
+        return (
+          <div key={entry.id} className="flex items-center gap-2">
+            <div
+              className="w-14 shrink-0 bg-muted rounded overflow-hidden"
+              style={{ aspectRatio: `${settings.width} / ${settings.height}` }}
+            >
+              <img src={entry.url} alt={entry.label} className="w-full h-full object-cover" />
+            </div>
+            <div className="min-w-0 flex-1">
+              <div className="text-xs font-medium truncate">{entry.label}</div>
+              <div className="text-xs text-muted-foreground">
+                {new Date(entry.createdAt).toLocaleDateString()}
+              </div>
+            </div>
+            <Button
+              onClick={() => onToggleFavorite(entry)}
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              title={entry.favorite ? 'Remove from favorites' : 'Add to favorites'}
+            >
+              <Star className={`h-3 w-3 ${entry.favorite ? 'fill-yellow-400 text-yellow-400' : ''}`} />
+            </Button>
+            {isCurrent ? (
+              <Badge variant="secondary" className="text-xs">Current</Badge>
+            ) : (
+              <Button
+                onClick={() => onRestore(entry)}
+                disabled={isBusy}
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0"
+                title="Use this terrain"
+              >
+                <RotateCcw className="h-3 w-3" />
+              </Button>
+            )}
+            <Button
+              onClick={() => onRemove(entry)}
+              size="sm"
+              variant="ghost"
+              className="h-6 w-6 p-0"
+              title="Remove from history"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+import { useState, useRef, useCallback } from 'react'
+
+export interface Command {
+  label: string
+  redo: () => void
+  undo: () => void
+  // Consecutive commands with the same key (e.g. dragging a slider) collapse into one entry
+  mergeKey?: string
+}
+
+export interface HistoryEntry {
+  id: number
+  label: string
+  timestamp: number
+  commands: Command[]
+  mergeKey?: string
+  group?: string
+}
+
+interface ExecuteOptions {
+  // Attach the command to the open group entry instead of creating a new one
+  group?: string
+}
+
+const MAX_ENTRIES = 100
+const MERGE_WINDOW = 1000
+
+export function useCommandHistory() {
+  const pastRef = useRef<HistoryEntry[]>([])
+  const futureRef = useRef<HistoryEntry[]>([])
+  const nextIdRef = useRef(1)
+  const [, setVersion] = useState(0)
+
+  const notify = useCallback(() => setVersion(v => v + 1), [])
+
+  // Open a named entry that later commands can join, e.g. a multi-step AI generation
+  const beginGroup = useCallback((label: string) => {
+    const group = `group-${nextIdRef.current}`
+    pastRef.current = [
+      ...pastRef.current,
+      { id: nextIdRef.current++, label, timestamp: Date.now(), commands: [], group }
+    ].slice(-MAX_ENTRIES)
+    futureRef.current = []
+    notify()
+    return group
+  }, [notify])
+
+  // Close a group, dropping it if nothing was recorded (e.g. the generation failed)
+  const endGroup = useCallback((group: string) => {
+    const isEmpty = (entry: HistoryEntry) => entry.group === group && entry.commands.length === 0
+    pastRef.current = pastRef.current.filter(entry => !isEmpty(entry))
+    futureRef.current = futureRef.current.filter(entry => !isEmpty(entry))
+    notify()
+  }, [notify])
+
+  const execute = useCallback((command: Command, options: ExecuteOptions = {}) => {
+    command.redo()
+
+    const last = pastRef.current[pastRef.current.length - 1]
+    if (options.group && last?.group === options.group) {
+      last.commands.push(command)
+    } else if (
+      !options.group &&
+      command.mergeKey &&
+      last?.mergeKey === command.mergeKey &&
+      Date.now() - last.timestamp < MERGE_WINDOW
+    ) {
+      // Keep the oldest undo and the newest redo
+      const [first] = last.commands
+      last.commands = [{ ...command, undo: first.undo }]
+      last.label = command.label
+      last.timestamp = Date.now()
+    } else {
+      const group = options.group && [...pastRef.current, ...futureRef.current].find(e => e.group === options.group)
+      pastRef.current = [
+        ...pastRef.current,
+        {
+          id: nextIdRef.current++,
+          label: group ? group.label : command.label,
+          timestamp: Date.now(),
+          commands: [command],
+          // A group that was undone, or followed by other edits, continues in a new entry
+          mergeKey: options.group ? undefined : command.mergeKey,
+          group: options.group
+        }
+      ].slice(-MAX_ENTRIES)
+    }
+    futureRef.current = []
+    notify()
+  }, [notify])
+
+  const undo = useCallback(() => {
+    const entry = pastRef.current[pastRef.current.length - 1]
+    if (!entry) return
+
+    pastRef.current = pastRef.current.slice(0, -1)
+    entry.commands.slice().reverse().forEach(command => command.undo())
+    // Undone merge entries should not swallow the next edit
+    futureRef.current = [{ ...entry, mergeKey: undefined }, ...futureRef.current]
+    notify()
+  }, [notify])
+
+  const redo = useCallback(() => {
+    const [entry, ...rest] = futureRef.current
+    if (!entry) return
+
+    futureRef.current = rest
+    entry.commands.forEach(command => command.redo())
+    pastRef.current = [...pastRef.current, entry]
+    notify()
+  }, [notify])
+
+  // Undo or redo until the given entry is the most recent applied one (0 = initial state)
+  const jumpTo = useCallback((entryId: number) => {
+    if (entryId !== 0 && !pastRef.current.some(e => e.id === entryId) && !futureRef.current.some(e => e.id === entryId)) {
+      return
+    }
+    while (pastRef.current.length > 0 && pastRef.current[pastRef.current.length - 1].id !== entryId) {
+      if (futureRef.current.some(e => e.id === entryId)) break
+      undo()
+    }
+    while (futureRef.current.some(e => e.id === entryId)) {
+      redo()
+    }
+  }, [undo, redo])
+
+  const clear = useCallback(() => {
+    pastRef.current = []
+    futureRef.current = []
+    notify()
+  }, [notify])
+
+  return {
+    past: pastRef.current,
+    future: futureRef.current,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+    execute,
+    beginGroup,
+    endGroup,
+    undo,
+    redo,
+    jumpTo,
+    clear
+  }
+}
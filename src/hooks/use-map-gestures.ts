@@ -0,0 +1,140 @@
+import { useEffect, useRef, type RefObject } from 'react'
+import { clampZoom, clientToCanvas, screenToMap, zoomAround, type Viewport } from '../lib/viewport'
+import type { Point } from '../lib/grid'
+
+interface MapGestureTarget {
+  getViewport: () => Viewport
+  setViewport: (viewport: Viewport) => void
+}
+
+// Safari reports trackpad pinches as non-standard gesture events instead of ctrl+wheel
+interface GestureEvent extends UIEvent {
+  scale: number
+  clientX: number
+  clientY: number
+}
+
+// Wheel deltas in lines or pages are converted to pixels first
+const LINE_HEIGHT = 16
+const WHEEL_ZOOM_SPEED = 0.0015
+// Pinch deltas are small, so they zoom faster per pixel
+const PINCH_ZOOM_SPEED = 0.01
+
+const wheelDelta = (event: WheelEvent, canvas: HTMLCanvasElement) => {
+  if (event.deltaMode === WheelEvent.DOM_DELTA_LINE) return event.deltaY * LINE_HEIGHT
+  if (event.deltaMode === WheelEvent.DOM_DELTA_PAGE) return event.deltaY * canvas.clientHeight
+  return event.deltaY
+}
+
+const midpoint = (a: Touch, b: Touch) => ({ x: (a.clientX + b.clientX) / 2, y: (a.clientY + b.clientY) / 2 })
+
+const distance = (a: Touch, b: Touch) => Math.hypot(a.clientX - b.clientX, a.clientY - b.clientY)
+
+// Wheel zoom under the cursor, trackpad pinch, and one- and two-finger touch pan/zoom.
+// Listeners are attached natively because React registers wheel and touch handlers as
+// passive, which would stop them from preventing page scroll and browser zoom.
+export function useMapGestures(canvasRef: RefObject<HTMLCanvasElement | null>, target: MapGestureTarget) {
+  const targetRef = useRef(target)
+  targetRef.current = target
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const getViewport = () => targetRef.current.getViewport()
+    const setViewport = (viewport: Viewport) => targetRef.current.setViewport(viewport)
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      const anchor = clientToCanvas(canvas, event.clientX, event.clientY)
+      // Browsers report trackpad pinches as wheel events with ctrlKey set
+      const speed = event.ctrlKey ? PINCH_ZOOM_SPEED : WHEEL_ZOOM_SPEED
+      const viewport = getViewport()
+      setViewport(zoomAround(viewport, viewport.zoom * Math.exp(-wheelDelta(event, canvas) * speed), anchor))
+    }
+
+    let gestureStartZoom = 1
+    const handleGestureStart = (event: Event) => {
+      event.preventDefault()
+      gestureStartZoom = getViewport().zoom
+    }
+    const handleGestureChange = (event: Event) => {
+      event.preventDefault()
+      const gesture = event as GestureEvent
+      const anchor = clientToCanvas(canvas, gesture.clientX, gesture.clientY)
+      setViewport(zoomAround(getViewport(), gestureStartZoom * gesture.scale, anchor))
+    }
+
+    // One finger pans; two fingers pan and zoom around the map point that started
+    // under their midpoint
+    let lastTouch: Point | null = null
+    let pinch: { zoom: number; distance: number; mapPoint: Point } | null = null
+
+    const startTouches = (touches: TouchList) => {
+      if (touches.length >= 2) {
+        const mid = midpoint(touches[0], touches[1])
+        pinch = {
+          zoom: getViewport().zoom,
+          distance: Math.max(1, distance(touches[0], touches[1])),
+          mapPoint: screenToMap(getViewport(), clientToCanvas(canvas, mid.x, mid.y))
+        }
+        lastTouch = null
+      } else if (touches.length === 1) {
+        pinch = null
+        lastTouch = clientToCanvas(canvas, touches[0].clientX, touches[0].clientY)
+      } else {
+        pinch = null
+        lastTouch = null
+      }
+    }
+
+    const handleTouchStart = (event: TouchEvent) => startTouches(event.touches)
+
+    const handleTouchMove = (event: TouchEvent) => {
+      const { touches } = event
+      if (pinch && touches.length >= 2) {
+        event.preventDefault()
+        const zoom = clampZoom(pinch.zoom * distance(touches[0], touches[1]) / pinch.distance)
+        const mid = midpoint(touches[0], touches[1])
+        const screen = clientToCanvas(canvas, mid.x, mid.y)
+        setViewport({
+          zoom,
+          pan: { x: screen.x / zoom - pinch.mapPoint.x, y: screen.y / zoom - pinch.mapPoint.y }
+        })
+      } else if (lastTouch && touches.length === 1) {
+        event.preventDefault()
+        const point = clientToCanvas(canvas, touches[0].clientX, touches[0].clientY)
+        const viewport = getViewport()
+        setViewport({
+          zoom: viewport.zoom,
+          pan: {
+            x: viewport.pan.x + (point.x - lastTouch.x) / viewport.zoom,
+            y: viewport.pan.y + (point.y - lastTouch.y) / viewport.zoom
+          }
+        })
+        lastTouch = point
+      }
+    }
+
+    // Lifting one of two fingers continues as a one-finger pan
+    const handleTouchEnd = (event: TouchEvent) => startTouches(event.touches)
+
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    canvas.addEventListener('gesturestart', handleGestureStart)
+    canvas.addEventListener('gesturechange', handleGestureChange)
+    canvas.addEventListener('touchstart', handleTouchStart, { passive: true })
+    canvas.addEventListener('touchmove', handleTouchMove, { passive: false })
+    canvas.addEventListener('touchend', handleTouchEnd)
+    canvas.addEventListener('touchcancel', handleTouchEnd)
+
+    return () => {
+      canvas.removeEventListener('wheel', handleWheel)
+      canvas.removeEventListener('gesturestart', handleGestureStart)
+      canvas.removeEventListener('gesturechange', handleGestureChange)
+      canvas.removeEventListener('touchstart', handleTouchStart)
+      canvas.removeEventListener('touchmove', handleTouchMove)
+      canvas.removeEventListener('touchend', handleTouchEnd)
+      canvas.removeEventListener('touchcancel', handleTouchEnd)
+    }
+  }, [canvasRef])
+}
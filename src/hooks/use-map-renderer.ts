@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState, useCallback, type RefObject } from 'react'
+import { createMapRenderer, type MapRenderer, type MapView, type ViewportListener } from '../lib/map-layers'
+import { clientToCanvas, screenToMap, zoomAround, type Viewport } from '../lib/viewport'
+import type { Point } from '../lib/grid'
+
+// Drives the map canvas from cached layers. The viewport lives in the renderer so panning
+// and zooming repaint on the next animation frame; only the zoom level is mirrored into
+// React state, for display.
+export function useMapRenderer(canvasRef: RefObject<HTMLCanvasElement | null>, view: MapView) {
+  const rendererRef = useRef<MapRenderer | null>(null)
+  if (!rendererRef.current) {
+    rendererRef.current = createMapRenderer(() => canvasRef.current)
+  }
+  const [zoom, setZoom] = useState(1)
+
+  const { settings, terrain, locations, selectedId, dragged, region } = view
+  const draggedId = dragged?.id
+  const draggedX = dragged?.x
+  const draggedY = dragged?.y
+
+  useEffect(() => {
+    rendererRef.current!.update({
+      settings,
+      terrain,
+      locations,
+      selectedId,
+      dragged: draggedId !== undefined ? { id: draggedId, x: draggedX!, y: draggedY! } : null,
+      region
+    })
+  }, [settings, terrain, locations, selectedId, draggedId, draggedX, draggedY, region])
+
+  useEffect(() => () => rendererRef.current!.destroy(), [])
+
+  // Fill the canvas's container, at the screen's pixel density. The canvas is sized to its
+  // parent so toggling side panels or resizing the window re-renders it crisply.
+  useEffect(() => {
+    const container = canvasRef.current?.parentElement
+    if (!container) return
+
+    const resize = () => rendererRef.current!.resize(
+      { width: container.clientWidth, height: container.clientHeight },
+      window.devicePixelRatio || 1
+    )
+
+    const observer = new ResizeObserver(resize)
+    observer.observe(container)
+
+    // devicePixelRatio changes with browser zoom or when the window moves to another
+    // screen; a resolution query only matches the current ratio, so re-arm on every change
+    let media: MediaQueryList | null = null
+    const watchPixelRatio = () => {
+      media?.removeEventListener('change', handlePixelRatioChange)
+      media = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`)
+      media.addEventListener('change', handlePixelRatioChange)
+    }
+    const handlePixelRatioChange = () => {
+      resize()
+      watchPixelRatio()
+    }
+    watchPixelRatio()
+
+    return () => {
+      observer.disconnect()
+      media?.removeEventListener('change', handlePixelRatioChange)
+    }
+  }, [canvasRef])
+
+  const getViewport = useCallback(() => rendererRef.current!.getViewport(), [])
+
+  const setViewport = useCallback((update: Viewport | ((viewport: Viewport) => Viewport)) => {
+    const renderer = rendererRef.current!
+    const next = typeof update === 'function' ? update(renderer.getViewport()) : update
+    renderer.setViewport(next)
+    setZoom(next.zoom)
+  }, [])
+
+  const getSize = useCallback(() => rendererRef.current!.getSize(), [])
+
+  // Zoom by a factor around a canvas point, defaulting to the canvas center
+  const zoomBy = useCallback((factor: number, anchor?: Point) => {
+    const size = rendererRef.current!.getSize()
+    const center = anchor ?? { x: size.width / 2, y: size.height / 2 }
+    setViewport(viewport => zoomAround(viewport, viewport.zoom * factor, center))
+  }, [setViewport])
+
+  const clientToMap = useCallback((clientX: number, clientY: number) => {
+    const canvas = canvasRef.current
+    if (!canvas) return { x: 0, y: 0 }
+    return screenToMap(rendererRef.current!.getViewport(), clientToCanvas(canvas, clientX, clientY))
+  }, [canvasRef])
+
+  const onViewportChange = useCallback((listener: ViewportListener) =>
+    rendererRef.current!.onViewportChange(listener), [])
+
+  const setHovered = useCallback((id: string | null) => rendererRef.current!.setHovered(id), [])
+
+  const hitTest = useCallback((point: Point) => rendererRef.current!.hitTest(point), [])
+
+  return { zoom, getViewport, setViewport, getSize, onViewportChange, zoomBy, clientToMap, setHovered, hitTest }
+}
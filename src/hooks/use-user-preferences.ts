@@ -0,0 +1,16 @@
+import { useState, useCallback } from 'react'
+import { loadPreferences, savePreferences, type UserPreferences } from '../lib/preferences'
+
+export function useUserPreferences(userId: string) {
+  const [preferences, setPreferences] = useState(() => loadPreferences(userId))
+
+  const updatePreferences = useCallback((changes: Partial<UserPreferences>) => {
+    setPreferences(prev => {
+      const next = { ...prev, ...changes }
+      savePreferences(userId, next)
+      return next
+    })
+  }, [userId])
+
+  return { preferences, updatePreferences }
+}
@@ -0,0 +1,92 @@
+import { getGridReference } from './grid'
+import type { MapLocation, MapSettings } from '../types/map'
+
+export interface GodotExportSource {
+  name: string
+  description: string
+  settings: MapSettings
+  locations: MapLocation[]
+  // res:// path of the terrain texture inside the Godot project
+  terrainPath: string | null
+}
+
+const toGodotString = (text: string) =>
+  `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+
+// Serialize a JSON-like value with Godot's Variant text syntax
+const toGodotValue = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null'
+  if (typeof value === 'boolean') return String(value)
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '0'
+  if (typeof value === 'string') return toGodotString(value)
+  if (Array.isArray(value)) return `[${value.map(toGodotValue).join(', ')}]`
+  if (typeof value === 'object') {
+    const entries = Object.entries(value).map(([key, item]) => `${toGodotString(key)}: ${toGodotValue(item)}`)
+    return `{${entries.join(', ')}}`
+  }
+  return toGodotString(String(value))
+}
+
+// Godot rejects . : @ / " % in node names and renames duplicate siblings on load
+const createNodeNamer = () => {
+  const used = new Set<string>()
+  return (name: string) => {
+    const base = name.replace(/[.:@/"%]/g, '_').trim() || 'Location'
+    let unique = base
+    for (let index = 2; used.has(unique); index++) unique = `${base}${index}`
+    used.add(unique)
+    return unique
+  }
+}
+
+// Build a Godot 4 scene. Godot 2D shares the canvas convention (origin top-left, y down),
+// so map pixels are used as scene positions unchanged.
+export const buildGodotScene = (source: GodotExportSource) => {
+  const toNodeName = createNodeNamer()
+  const rootName = toNodeName(source.name || 'Map')
+  const lines = [`[gd_scene load_steps=${source.terrainPath ? 2 : 1} format=3]`, '']
+
+  if (source.terrainPath) {
+    lines.push(`[ext_resource type="Texture2D" path=${toGodotString(source.terrainPath)} id="1_terrain"]`, '')
+  }
+
+  lines.push(
+    `[node name=${toGodotString(rootName)} type="Node2D"]`,
+    `metadata/description = ${toGodotString(source.description)}`,
+    `metadata/size = Vector2(${source.settings.width}, ${source.settings.height})`,
+    `metadata/grid_size = ${source.settings.gridSize}`,
+    `metadata/grid_type = ${toGodotString(source.settings.gridType)}`,
+    `metadata/terrain_type = ${toGodotString(source.settings.terrainType)}`,
+    `metadata/biome = ${toGodotString(source.settings.biome)}`,
+    ''
+  )
+
+  if (source.terrainPath) {
+    lines.push(
+      '[node name="Terrain" type="Sprite2D" parent="."]',
+      'texture = ExtResource("1_terrain")',
+      'centered = false',
+      ''
+    )
+  }
+
+  lines.push('[node name="Locations" type="Node2D" parent="."]', '')
+
+  const locationNamer = createNodeNamer()
+  source.locations.forEach(location => {
+    lines.push(
+      `[node name=${toGodotString(locationNamer(location.name))} type="Marker2D" parent="Locations"]`,
+      `position = Vector2(${location.x}, ${location.y})`,
+      ...(location.visible ? [] : ['visible = false']),
+      `metadata/id = ${toGodotString(location.id)}`,
+      `metadata/type = ${toGodotString(location.type)}`,
+      `metadata/cell = ${toGodotString(getGridReference(location, source.settings))}`,
+      `metadata/description = ${toGodotString(location.description)}`,
+      ...(location.iconUrl ? [`metadata/icon_url = ${toGodotString(location.iconUrl)}`] : []),
+      `metadata/properties = ${toGodotValue(location.properties)}`,
+      ''
+    )
+  })
+
+  return lines.join('\n')
+}
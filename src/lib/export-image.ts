@@ -0,0 +1,142 @@
+import { loadImage } from './image-utils'
+import { withDpi } from './image-dpi'
+import { paintMap } from './map-renderer'
+import { toPlainLocation } from './map-file'
+import type { MapLocation, MapSettings } from '../types/map'
+
+export interface ImageExportOptions {
+  format: 'image/png' | 'image/jpeg'
+  // Output pixels per map unit
+  scale: number
+  dpi: number
+  quality: number
+  includeGrid: boolean
+  includeLabels: boolean
+  includeHidden: boolean
+}
+
+export interface RenderImageRequest {
+  settings: MapSettings
+  locations: MapLocation[]
+  terrain: ImageBitmap | null
+  icons: Record<string, ImageBitmap>
+  options: ImageExportOptions
+}
+
+export type RenderImageResponse = { blob: Blob; error?: undefined } | { error: string; blob?: undefined }
+
+// Conservative limits that every major browser can allocate for a canvas
+export const MAX_IMAGE_SIDE = 16384
+export const MAX_IMAGE_PIXELS = 16384 * 16384 / 4
+
+export const getImageSize = (settings: MapSettings, scale: number) => ({
+  width: Math.round(settings.width * scale),
+  height: Math.round(settings.height * scale)
+})
+
+export const isImageSizeSupported = (settings: MapSettings, scale: number) => {
+  const { width, height } = getImageSize(settings, scale)
+  return width <= MAX_IMAGE_SIDE && height <= MAX_IMAGE_SIDE && width * height <= MAX_IMAGE_PIXELS
+}
+
+// A missing terrain fails the export; the procedural fallback would silently replace the map's image
+const loadTerrainBitmap = async (url: string) => {
+  try {
+    return await createImageBitmap(await loadImage(url))
+  } catch (error) {
+    console.error('Error loading terrain for export:', error)
+    throw new Error('Failed to load the terrain image')
+  }
+}
+
+// A missing icon only drops that icon from the export
+const toBitmap = async (url: string) => {
+  try {
+    return await createImageBitmap(await loadImage(url))
+  } catch (error) {
+    console.error('Error loading image for export:', error)
+    return null
+  }
+}
+
+const renderInWorker = (request: RenderImageRequest) =>
+  new Promise<Blob>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/map-image.worker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<RenderImageResponse>) => {
+      worker.terminate()
+      if (event.data.blob) resolve(event.data.blob)
+      else reject(new Error(event.data.error))
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message || 'Image export worker failed'))
+    }
+
+    const transfer = [request.terrain, ...Object.values(request.icons)].filter((b): b is ImageBitmap => !!b)
+    worker.postMessage(request, transfer)
+  })
+
+// Fallback for browsers without OffscreenCanvas: same painting on a detached canvas
+const renderOnMainThread = (request: RenderImageRequest) =>
+  new Promise<Blob>((resolve, reject) => {
+    const { settings, options } = request
+    const canvas = document.createElement('canvas')
+    const size = getImageSize(settings, options.scale)
+    canvas.width = size.width
+    canvas.height = size.height
+
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      reject(new Error('Canvas is not supported'))
+      return
+    }
+
+    ctx.scale(options.scale, options.scale)
+    paintMap(ctx, {
+      settings,
+      locations: request.locations,
+      terrain: request.terrain,
+      icons: new Map(Object.entries(request.icons)),
+      showGrid: options.includeGrid,
+      showLabels: options.includeLabels,
+      showHidden: options.includeHidden
+    })
+    canvas.toBlob(
+      blob => blob ? resolve(blob) : reject(new Error('Failed to encode image')),
+      options.format,
+      options.quality
+    )
+  })
+
+// Render the composed map (terrain, grid, icons, labels) at export resolution
+export const renderMapImage = async (
+  settings: MapSettings,
+  locations: MapLocation[],
+  terrainImageUrl: string | null,
+  options: ImageExportOptions
+): Promise<Blob> => {
+  if (!isImageSizeSupported(settings, options.scale)) {
+    throw new Error('Image is too large to render')
+  }
+
+  const included = locations.filter(location => location.visible || options.includeHidden)
+  const iconEntries = await Promise.all(
+    included
+      .filter(location => location.iconUrl)
+      .map(async location => [location.id, await toBitmap(location.iconUrl!)] as const)
+  )
+
+  const request: RenderImageRequest = {
+    settings,
+    locations: included.map(toPlainLocation),
+    terrain: terrainImageUrl ? await loadTerrainBitmap(terrainImageUrl) : null,
+    icons: Object.fromEntries(iconEntries.filter((entry): entry is readonly [string, ImageBitmap] => !!entry[1])),
+    options
+  }
+
+  const blob = typeof OffscreenCanvas !== 'undefined'
+    ? await renderInWorker(request)
+    : await renderOnMainThread(request)
+
+  return withDpi(blob, options.dpi)
+}
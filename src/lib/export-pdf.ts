@@ -0,0 +1,348 @@
+import { renderMapImage, isImageSizeSupported } from './export-image'
+import { getGridReference } from './grid'
+import { locationColors, locationTypes } from './map-constants'
+import type { jsPDF } from 'jspdf'
+import type { MapLocation, MapSettings } from '../types/map'
+
+export type PaperSize = 'a4' | 'letter'
+
+export interface PdfAtlasOptions {
+  paper: PaperSize
+  orientation: 'portrait' | 'landscape'
+  // Number of pages the map spans horizontally; rows follow from the aspect ratio
+  pagesAcross: number
+  // Millimetres repeated on neighbouring pages so tiles can be trimmed and taped
+  overlap: number
+  cropMarks: boolean
+  includeGrid: boolean
+  includeLegend: boolean
+  includeGazetteer: boolean
+}
+
+export interface AtlasLayout {
+  pageWidth: number
+  pageHeight: number
+  tileWidth: number
+  tileHeight: number
+  overlap: number
+  columns: number
+  rows: number
+  mmPerPixel: number
+  printedWidth: number
+  printedHeight: number
+}
+
+// Paper sizes in millimetres, portrait
+const paperSizes: Record<PaperSize, { width: number; height: number }> = {
+  a4: { width: 210, height: 297 },
+  letter: { width: 215.9, height: 279.4 }
+}
+
+// Leaves room outside the map for crop marks and the page footer
+const MARGIN = 12
+const CROP_MARK_GAP = 1.5
+const CROP_MARK_LENGTH = 6
+const TARGET_DPI = 200
+const MM_PER_INCH = 25.4
+
+export const getAtlasLayout = (settings: MapSettings, options: PdfAtlasOptions): AtlasLayout => {
+  const paper = paperSizes[options.paper]
+  const [pageWidth, pageHeight] = options.orientation === 'portrait'
+    ? [paper.width, paper.height]
+    : [paper.height, paper.width]
+  const tileWidth = pageWidth - MARGIN * 2
+  const tileHeight = pageHeight - MARGIN * 2
+  const overlap = Math.max(0, Math.min(options.overlap, tileWidth / 2, tileHeight / 2))
+
+  const columns = Math.max(1, Math.round(options.pagesAcross))
+  const printedWidth = columns * (tileWidth - overlap) + overlap
+  const mmPerPixel = printedWidth / settings.width
+  const printedHeight = settings.height * mmPerPixel
+  const rows = Math.max(1, Math.ceil((printedHeight - overlap) / (tileHeight - overlap)))
+
+  return { pageWidth, pageHeight, tileWidth, tileHeight, overlap, columns, rows, mmPerPixel, printedWidth, printedHeight }
+}
+
+// Page number of the map tile a location is printed on, counting row by row from 1
+const getTilePage = (location: MapLocation, layout: AtlasLayout) => {
+  const column = Math.min(layout.columns - 1, Math.floor((location.x * layout.mmPerPixel) / (layout.tileWidth - layout.overlap)))
+  const row = Math.min(layout.rows - 1, Math.floor((location.y * layout.mmPerPixel) / (layout.tileHeight - layout.overlap)))
+  return Math.max(0, row) * layout.columns + Math.max(0, column) + 1
+}
+
+const cropToJpeg = (image: ImageBitmap, sx: number, sy: number, sw: number, sh: number, width: number, height: number) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.round(width))
+  canvas.height = Math.max(1, Math.round(height))
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas is not supported')
+  ctx.drawImage(image, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height)
+  return canvas.toDataURL('image/jpeg', 0.9)
+}
+
+const drawCropMarks = (doc: jsPDF, x: number, y: number, width: number, height: number) => {
+  doc.setDrawColor(0)
+  doc.setLineWidth(0.2)
+  const corners: [number, number, number, number][] = [
+    [x, y, -1, -1],
+    [x + width, y, 1, -1],
+    [x, y + height, -1, 1],
+    [x + width, y + height, 1, 1]
+  ]
+  corners.forEach(([cx, cy, dx, dy]) => {
+    doc.line(cx + dx * CROP_MARK_GAP, cy, cx + dx * (CROP_MARK_GAP + CROP_MARK_LENGTH), cy)
+    doc.line(cx, cy + dy * CROP_MARK_GAP, cx, cy + dy * (CROP_MARK_GAP + CROP_MARK_LENGTH))
+  })
+}
+
+const drawFooter = (doc: jsPDF, layout: AtlasLayout, text: string) => {
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(8)
+  doc.setTextColor(120)
+  doc.text(text, layout.pageWidth / 2, layout.pageHeight - MARGIN / 3, { align: 'center' })
+}
+
+const drawMapTiles = (doc: jsPDF, image: ImageBitmap, layout: AtlasLayout, options: PdfAtlasOptions, mapName: string) => {
+  // Image pixels per printed millimetre
+  const pxPerMm = image.width / layout.printedWidth
+  const total = layout.columns * layout.rows
+
+  for (let row = 0; row < layout.rows; row++) {
+    for (let column = 0; column < layout.columns; column++) {
+      const originX = column * (layout.tileWidth - layout.overlap)
+      const originY = row * (layout.tileHeight - layout.overlap)
+      const width = Math.min(layout.tileWidth, layout.printedWidth - originX)
+      const height = Math.min(layout.tileHeight, layout.printedHeight - originY)
+      const page = row * layout.columns + column + 1
+
+      if (page > 1) doc.addPage()
+      if (width > 0 && height > 0) {
+        const tile = cropToJpeg(
+          image,
+          originX * pxPerMm, originY * pxPerMm, width * pxPerMm, height * pxPerMm,
+          width * pxPerMm, height * pxPerMm
+        )
+        doc.addImage(tile, 'JPEG', MARGIN, MARGIN, width, height)
+
+        // Dashed guides show where the neighbouring pages start, for trimming and taping
+        if (layout.overlap > 0) {
+          doc.setDrawColor(150)
+          doc.setLineWidth(0.15)
+          doc.setLineDashPattern([1.5, 1.5], 0)
+          if (column > 0) doc.line(MARGIN + layout.overlap, MARGIN, MARGIN + layout.overlap, MARGIN + height)
+          if (row > 0) doc.line(MARGIN, MARGIN + layout.overlap, MARGIN + width, MARGIN + layout.overlap)
+          if (column < layout.columns - 1) {
+            doc.line(MARGIN + width - layout.overlap, MARGIN, MARGIN + width - layout.overlap, MARGIN + height)
+          }
+          if (row < layout.rows - 1) {
+            doc.line(MARGIN, MARGIN + height - layout.overlap, MARGIN + width, MARGIN + height - layout.overlap)
+          }
+          doc.setLineDashPattern([], 0)
+        }
+
+        if (options.cropMarks) drawCropMarks(doc, MARGIN, MARGIN, width, height)
+      }
+
+      drawFooter(doc, layout, `${mapName} - page ${page} of ${total} (row ${row + 1}, column ${column + 1})`)
+    }
+  }
+}
+
+const drawHeading = (doc: jsPDF, text: string, y: number) => {
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(16)
+  doc.setTextColor(20)
+  doc.text(text, MARGIN, y)
+}
+
+// How to read the grid references printed in the gazetteer, with the cell size on paper
+const getGridNote = (settings: MapSettings, mmPerPixel: number) => {
+  const cellSize = settings.gridSize * mmPerPixel
+  switch (settings.gridType) {
+    case 'hex-flat':
+    case 'hex-pointy':
+      return `Grid references are axial q,r coordinates of each hex; hexes are ${cellSize.toFixed(1)} mm across the flats.`
+    case 'isometric':
+      return 'Grid references are column,row pairs along the two diagonal axes, counted from the top center; ' +
+        `each diamond is ${(cellSize * 2).toFixed(1)} x ${cellSize.toFixed(1)} mm.`
+    default:
+      return `Grid references use lettered columns and numbered rows; each square is ${cellSize.toFixed(1)} mm on paper.`
+  }
+}
+
+const drawLegend = (
+  doc: jsPDF,
+  image: ImageBitmap,
+  layout: AtlasLayout,
+  settings: MapSettings,
+  locations: MapLocation[]
+) => {
+  doc.addPage()
+  drawHeading(doc, 'Legend', MARGIN + 6)
+
+  let y = MARGIN + 18
+  doc.setFontSize(11)
+  locationTypes.forEach(type => {
+    const count = locations.filter(location => location.type === type.value).length
+    doc.setFillColor(locationColors[type.value as MapLocation['type']])
+    doc.circle(MARGIN + 3, y - 1.3, 2.5, 'F')
+    doc.setFont('helvetica', 'normal')
+    doc.setTextColor(20)
+    doc.text(type.label, MARGIN + 9, y)
+    doc.setTextColor(120)
+    doc.text(`${count}`, MARGIN + 60, y, { align: 'right' })
+    y += 8
+  })
+
+  y += 4
+  doc.setFontSize(9)
+  doc.setTextColor(80)
+  const notes = [
+    getGridNote(settings, layout.mmPerPixel),
+    `Printed size: ${(layout.printedWidth / 10).toFixed(1)} x ${(layout.printedHeight / 10).toFixed(1)} cm across ${layout.columns * layout.rows} pages.`,
+    layout.overlap > 0
+      ? `Neighbouring pages overlap by ${layout.overlap} mm; dashed lines mark where the next page begins.`
+      : 'Pages do not overlap; trim along the crop marks and butt the edges together.'
+  ]
+  notes.forEach(note => {
+    const lines = doc.splitTextToSize(note, layout.pageWidth - MARGIN * 2)
+    doc.text(lines, MARGIN, y)
+    y += lines.length * 4.5
+  })
+
+  // Assembly overview: the whole map with page outlines and numbers
+  y += 6
+  const availableWidth = layout.pageWidth - MARGIN * 2
+  const availableHeight = layout.pageHeight - MARGIN - y
+  const scale = Math.min(availableWidth / layout.printedWidth, availableHeight / layout.printedHeight)
+  if (scale <= 0) return
+
+  const overviewWidth = layout.printedWidth * scale
+  const overviewHeight = layout.printedHeight * scale
+  const overviewX = MARGIN + (availableWidth - overviewWidth) / 2
+  const pxPerMm = TARGET_DPI / MM_PER_INCH / 2
+  doc.addImage(
+    cropToJpeg(image, 0, 0, image.width, image.height, overviewWidth * pxPerMm, overviewHeight * pxPerMm),
+    'JPEG', overviewX, y, overviewWidth, overviewHeight
+  )
+
+  doc.setDrawColor(255, 255, 255)
+  doc.setLineWidth(0.4)
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(10)
+  for (let row = 0; row < layout.rows; row++) {
+    for (let column = 0; column < layout.columns; column++) {
+      const tileX = overviewX + column * (layout.tileWidth - layout.overlap) * scale
+      const tileY = y + row * (layout.tileHeight - layout.overlap) * scale
+      const tileWidth = Math.min(layout.tileWidth, layout.printedWidth - column * (layout.tileWidth - layout.overlap)) * scale
+      const tileHeight = Math.min(layout.tileHeight, layout.printedHeight - row * (layout.tileHeight - layout.overlap)) * scale
+      doc.rect(tileX, tileY, tileWidth, tileHeight, 'S')
+      doc.setTextColor(255, 255, 255)
+      doc.text(String(row * layout.columns + column + 1), tileX + 2, tileY + 5)
+    }
+  }
+}
+
+const drawGazetteer = (doc: jsPDF, layout: AtlasLayout, settings: MapSettings, locations: MapLocation[]) => {
+  doc.addPage()
+  drawHeading(doc, 'Gazetteer', MARGIN + 6)
+
+  const contentWidth = layout.pageWidth - MARGIN * 2
+  const bottom = layout.pageHeight - MARGIN
+  let y = MARGIN + 16
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= bottom) return
+    doc.addPage()
+    y = MARGIN + 6
+  }
+
+  locationTypes.forEach(type => {
+    const entries = locations
+      .filter(location => location.type === type.value)
+      .sort((a, b) => a.name.localeCompare(b.name))
+    if (entries.length === 0) return
+
+    ensureSpace(20)
+    y += 4
+    doc.setFillColor(locationColors[type.value as MapLocation['type']])
+    doc.circle(MARGIN + 2, y - 1.5, 2, 'F')
+    doc.setFont('helvetica', 'bold')
+    doc.setFontSize(12)
+    doc.setTextColor(20)
+    doc.text(type.label, MARGIN + 7, y)
+    y += 7
+
+    entries.forEach(location => {
+      doc.setFontSize(9)
+      const description = location.description
+        ? doc.splitTextToSize(location.description, contentWidth - 4)
+        : []
+      ensureSpace(6 + description.length * 4)
+
+      doc.setFont('helvetica', 'bold')
+      doc.setFontSize(10)
+      doc.setTextColor(20)
+      doc.text(location.name, MARGIN, y)
+      doc.setFont('helvetica', 'normal')
+      doc.setTextColor(100)
+      doc.text(
+        `${getGridReference(location, settings)}  -  p. ${getTilePage(location, layout)}`,
+        MARGIN + contentWidth, y, { align: 'right' }
+      )
+      y += 4.5
+
+      if (description.length > 0) {
+        doc.setFontSize(9)
+        doc.setTextColor(80)
+        doc.text(description, MARGIN + 4, y)
+        y += description.length * 4
+      }
+      y += 2
+    })
+  })
+}
+
+// Build the atlas entirely in the browser: tiled map pages, then legend and gazetteer
+export const createPdfAtlas = async (
+  mapName: string,
+  settings: MapSettings,
+  locations: MapLocation[],
+  terrainImageUrl: string | null,
+  options: PdfAtlasOptions
+): Promise<Blob> => {
+  // Loaded on demand; the PDF library is only needed for this export
+  const { jsPDF } = await import('jspdf')
+  const layout = getAtlasLayout(settings, options)
+  const visibleLocations = locations.filter(location => location.visible)
+
+  // Render at print resolution, stepping down for maps too large for a canvas
+  let scale = Math.max(1, (TARGET_DPI / MM_PER_INCH) * layout.mmPerPixel)
+  while (scale > 0.5 && !isImageSizeSupported(settings, scale)) scale /= 1.5
+
+  const blob = await renderMapImage(settings, visibleLocations, terrainImageUrl, {
+    format: 'image/jpeg',
+    scale,
+    dpi: TARGET_DPI,
+    quality: 0.92,
+    includeGrid: options.includeGrid,
+    includeLabels: true,
+    includeHidden: false
+  })
+  const image = await createImageBitmap(blob)
+
+  try {
+    const doc = new jsPDF({ orientation: options.orientation, unit: 'mm', format: options.paper })
+    doc.setProperties({ title: mapName, subject: 'Map atlas' })
+
+    drawMapTiles(doc, image, layout, options, mapName)
+    if (options.includeLegend) drawLegend(doc, image, layout, settings, visibleLocations)
+    if (options.includeGazetteer && visibleLocations.length > 0) {
+      drawGazetteer(doc, layout, settings, visibleLocations)
+    }
+
+    return doc.output('blob')
+  } finally {
+    image.close()
+  }
+}
@@ -0,0 +1,160 @@
+import { getGridLines } from './grid'
+import { toDataUrl } from './image-utils'
+import { getProceduralTerrain } from './procedural-terrain'
+import { biomes, locationColors, locationTypes } from './map-constants'
+import { ICON_SIZE, LABEL_OFFSET, MARKER_RADIUS, locationGlyphs } from './map-renderer'
+import { escapeXml } from './xml'
+import type { MapLocation, MapSettings } from '../types/map'
+
+export interface SvgExportOptions {
+  includeGrid: boolean
+  includeLabels: boolean
+  includeHidden: boolean
+}
+
+// Keep ids valid XML names so editors can select groups by id
+const toSvgId = (value: string) => value.replace(/[^A-Za-z0-9_-]/g, '_')
+
+// Top-level groups become layers in Inkscape; Illustrator names layers after the id
+const layer = (id: string, label: string, children: string[], attributes = '') =>
+  `<g id="${toSvgId(id)}" inkscape:groupmode="layer" inkscape:label="${escapeXml(label)}"${attributes}>\n` +
+  children.join('\n') +
+  '\n</g>'
+
+const group = (id: string, children: string[], attributes = '') =>
+  children.length === 0
+    ? ''
+    : `<g id="${toSvgId(id)}"${attributes}>\n${children.join('\n')}\n</g>`
+
+// Name plates are sized the same way the canvas sizes them
+const createTextMeasurer = () => {
+  const ctx = document.createElement('canvas').getContext('2d')
+  if (ctx) ctx.font = '11px Inter'
+  return (text: string) => ctx ? ctx.measureText(text).width : text.length * 6
+}
+
+const inlineImage = async (url: string) => {
+  try {
+    return await toDataUrl(url)
+  } catch (error) {
+    // Fall back to linking the image so the export still succeeds
+    console.error('Error embedding image in SVG:', error)
+    return url
+  }
+}
+
+// Illustrator and other SVG 1.1 tools only read `xlink:href`, which browsers still accept.
+// Writing only that keeps embedded images from being stored twice.
+const imageHref = (href: string) => `xlink:href="${escapeXml(href)}"`
+
+const renderTerrain = (settings: MapSettings, terrainHref: string | null) => {
+  // Without a terrain image, embed the same procedural terrain the editor shows
+  const procedural = getProceduralTerrain(settings)
+  const href = terrainHref ?? ('toDataURL' in procedural ? procedural.toDataURL('image/png') : null)
+  if (href) {
+    return `<image ${imageHref(href)} x="0" y="0" width="${settings.width}" height="${settings.height}" preserveAspectRatio="none" />`
+  }
+  const biome = biomes.find(b => b.value === settings.biome)
+  return `<rect x="0" y="0" width="${settings.width}" height="${settings.height}" fill="${biome?.color || settings.backgroundColor}" />`
+}
+
+// Hex corners are irrational; two decimals are plenty at map scale
+const formatNumber = (value: number) => Number(value.toFixed(2))
+
+const renderGrid = (settings: MapSettings, hasTerrain: boolean) => {
+  // A single path, so edges shared by two hex cells are stroked once
+  const d = getGridLines(settings)
+    .map(line => line.map((point, index) => `${index === 0 ? 'M' : 'L'}${formatNumber(point.x)} ${formatNumber(point.y)}`).join(' '))
+    .join(' ')
+  const lines = [`<path d="${d}" />`]
+  const stroke = hasTerrain ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.1)'
+  return layer('grid', 'Grid', lines, ` stroke="${stroke}" stroke-width="1" fill="none"`)
+}
+
+const renderLocationType = (
+  type: MapLocation['type'],
+  label: string,
+  locations: MapLocation[],
+  iconHrefs: Map<string, string>,
+  options: SvgExportOptions,
+  measureText: (text: string) => number
+) => {
+  const withIcon = locations.filter(location => iconHrefs.has(location.id))
+  const withoutIcon = locations.filter(location => !iconHrefs.has(location.id))
+
+  const circles = withoutIcon.map(location =>
+    `<g id="${toSvgId(`marker-${location.id}`)}">` +
+    `<circle cx="${location.x}" cy="${location.y}" r="${MARKER_RADIUS}" fill="rgba(255, 255, 255, 0.9)" stroke="rgba(0, 0, 0, 0.2)" stroke-width="1" />` +
+    `<circle cx="${location.x}" cy="${location.y}" r="12" fill="${locationColors[type]}" />` +
+    '</g>'
+  )
+
+  const glyphs = withoutIcon.map(location =>
+    `<text x="${location.x}" y="${location.y}">${escapeXml(locationGlyphs[type] || '?')}</text>`
+  )
+
+  const icons = withIcon.map(location =>
+    `<image id="${toSvgId(`icon-${location.id}`)}" ${imageHref(iconHrefs.get(location.id)!)} ` +
+    `x="${location.x - ICON_SIZE / 2}" y="${location.y - ICON_SIZE / 2}" width="${ICON_SIZE}" height="${ICON_SIZE}" />`
+  )
+
+  const labels = options.includeLabels
+    ? locations.map(location => {
+      const textY = location.y + LABEL_OFFSET
+      const textWidth = measureText(location.name)
+      return `<g id="${toSvgId(`label-${location.id}`)}">` +
+        `<rect x="${location.x - textWidth / 2 - 4}" y="${textY - 2}" width="${textWidth + 8}" height="16" fill="rgba(0, 0, 0, 0.7)" />` +
+        `<text x="${location.x}" y="${textY}">${escapeXml(location.name)}</text>` +
+        '</g>'
+    })
+    : []
+
+  return layer(`locations-${type}`, label, [
+    group(`${type}-circles`, circles),
+    group(`${type}-glyphs`, glyphs, ' fill="white" font-family="Inter, sans-serif" font-size="10" font-weight="bold" text-anchor="middle" dominant-baseline="central"'),
+    group(`${type}-icons`, icons),
+    group(`${type}-labels`, labels, ' fill="white" font-family="Inter, sans-serif" font-size="11" text-anchor="middle" dominant-baseline="hanging"')
+  ].filter(Boolean))
+}
+
+// Build an editable SVG that mirrors the canvas: embedded terrain raster plus vector
+// grid and markers, grouped per location type so they can be restyled independently
+export const renderMapSvg = async (
+  settings: MapSettings,
+  locations: MapLocation[],
+  terrainImageUrl: string | null,
+  options: SvgExportOptions
+): Promise<string> => {
+  const included = locations.filter(location => location.visible || options.includeHidden)
+
+  const terrainHref = terrainImageUrl ? await inlineImage(terrainImageUrl) : null
+  const iconHrefs = new Map(await Promise.all(
+    included
+      .filter(location => location.iconUrl)
+      .map(async location => [location.id, await inlineImage(location.iconUrl!)] as const)
+  ))
+
+  const measureText = createTextMeasurer()
+  const typeLayers = locationTypes
+    .map(type => ({ ...type, locations: included.filter(location => location.type === type.value) }))
+    .filter(type => type.locations.length > 0)
+    .map(type => renderLocationType(
+      type.value as MapLocation['type'],
+      type.label,
+      type.locations,
+      iconHrefs,
+      options,
+      measureText
+    ))
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ' +
+      'xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape" ' +
+      `width="${settings.width}" height="${settings.height}" viewBox="0 0 ${settings.width} ${settings.height}">`,
+    layer('terrain', 'Terrain', [renderTerrain(settings, terrainHref)]),
+    options.includeGrid ? renderGrid(settings, !!terrainHref) : '',
+    ...typeLayers,
+    '</svg>'
+  ].filter(Boolean).join('\n')
+}
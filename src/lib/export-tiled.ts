@@ -0,0 +1,253 @@
+import { getGridReference } from './grid'
+import { escapeXml } from './xml'
+import type { MapLocation, MapSettings } from '../types/map'
+
+// Format version written by Tiled 1.10
+const TILED_VERSION = '1.10'
+const TILED_EDITOR_VERSION = '1.10.2'
+
+export type TiledPropertyType = 'string' | 'int' | 'float' | 'bool'
+
+export interface TiledProperty {
+  name: string
+  type: TiledPropertyType
+  value: string | number | boolean
+}
+
+export interface TiledObject {
+  id: number
+  name: string
+  type: string
+  x: number
+  y: number
+  width: number
+  height: number
+  rotation: number
+  point: true
+  visible: boolean
+  properties: TiledProperty[]
+}
+
+export interface TiledImageLayer {
+  id: number
+  name: string
+  type: 'imagelayer'
+  image: string
+  imagewidth: number
+  imageheight: number
+  x: number
+  y: number
+  opacity: number
+  visible: boolean
+}
+
+export interface TiledObjectLayer {
+  id: number
+  name: string
+  type: 'objectgroup'
+  draworder: 'topdown'
+  objects: TiledObject[]
+  x: number
+  y: number
+  opacity: number
+  visible: boolean
+}
+
+export interface TiledMap {
+  type: 'map'
+  version: string
+  tiledversion: string
+  orientation: 'orthogonal'
+  renderorder: 'right-down'
+  infinite: false
+  compressionlevel: number
+  width: number
+  height: number
+  tilewidth: number
+  tileheight: number
+  backgroundcolor: string
+  nextlayerid: number
+  nextobjectid: number
+  properties: TiledProperty[]
+  tilesets: never[]
+  layers: (TiledImageLayer | TiledObjectLayer)[]
+}
+
+export interface TiledExportSource {
+  name: string
+  description: string
+  settings: MapSettings
+  locations: MapLocation[]
+  // Path or URL written as the image layer source; bundles pass a relative path
+  terrainImage: string | null
+}
+
+// Tiled only has scalar custom property types; anything structured is stored as JSON text
+const toTiledProperty = (name: string, value: unknown): TiledProperty => {
+  if (typeof value === 'boolean') return { name, type: 'bool', value }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return { name, type: Number.isInteger(value) ? 'int' : 'float', value }
+  }
+  if (typeof value === 'string') return { name, type: 'string', value }
+  return { name, type: 'string', value: JSON.stringify(value ?? null) }
+}
+
+const toTiledObject = (location: MapLocation, id: number, settings: MapSettings): TiledObject => ({
+  id,
+  name: location.name,
+  type: location.type,
+  x: location.x,
+  y: location.y,
+  width: 0,
+  height: 0,
+  rotation: 0,
+  point: true,
+  visible: location.visible,
+  properties: [
+    toTiledProperty('locationId', location.id),
+    toTiledProperty('description', location.description),
+    toTiledProperty('cell', getGridReference(location, settings)),
+    ...(location.iconUrl ? [toTiledProperty('iconUrl', location.iconUrl)] : []),
+    ...Object.entries(location.properties).map(([key, value]) => toTiledProperty(key, value))
+  ]
+})
+
+// One tile per grid cell; locations become point objects in map pixel coordinates
+export const buildTiledMap = (source: TiledExportSource): TiledMap => {
+  const { settings } = source
+  const tileSize = Math.max(1, Math.round(settings.gridSize))
+  const layers: TiledMap['layers'] = []
+
+  if (source.terrainImage) {
+    layers.push({
+      id: layers.length + 1,
+      name: 'Terrain',
+      type: 'imagelayer',
+      image: source.terrainImage,
+      imagewidth: settings.width,
+      imageheight: settings.height,
+      x: 0,
+      y: 0,
+      opacity: 1,
+      visible: true
+    })
+  }
+
+  layers.push({
+    id: layers.length + 1,
+    name: 'Locations',
+    type: 'objectgroup',
+    draworder: 'topdown',
+    objects: source.locations.map((location, index) => toTiledObject(location, index + 1, settings)),
+    x: 0,
+    y: 0,
+    opacity: 1,
+    visible: true
+  })
+
+  return {
+    type: 'map',
+    version: TILED_VERSION,
+    tiledversion: TILED_EDITOR_VERSION,
+    orientation: 'orthogonal',
+    renderorder: 'right-down',
+    infinite: false,
+    compressionlevel: -1,
+    width: Math.ceil(settings.width / tileSize),
+    height: Math.ceil(settings.height / tileSize),
+    tilewidth: tileSize,
+    tileheight: tileSize,
+    backgroundcolor: settings.backgroundColor,
+    nextlayerid: layers.length + 1,
+    nextobjectid: source.locations.length + 1,
+    properties: [
+      toTiledProperty('name', source.name),
+      toTiledProperty('description', source.description),
+      toTiledProperty('terrainType', settings.terrainType),
+      toTiledProperty('biome', settings.biome),
+      // Tiles stay orthogonal; the map's own grid is recorded for scripts that need it
+      toTiledProperty('gridType', settings.gridType),
+      toTiledProperty('gridSize', settings.gridSize)
+    ],
+    tilesets: [],
+    layers
+  }
+}
+
+export const toTiledJson = (map: TiledMap) => JSON.stringify(map, null, 2)
+
+const attributes = (values: Record<string, string | number | boolean | undefined>) =>
+  Object.entries(values)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+    .join(' ')
+
+const propertiesXml = (properties: TiledProperty[], indent: string) => {
+  if (properties.length === 0) return []
+  return [
+    `${indent}<properties>`,
+    ...properties.map(property =>
+      // "string" is the TMX default type and is left implicit
+      `${indent} <property ${attributes({
+        name: property.name,
+        type: property.type === 'string' ? undefined : property.type,
+        value: property.value
+      })}/>`
+    ),
+    `${indent}</properties>`
+  ]
+}
+
+// Serialize the same map as TMX; Tiled 1.10 stores the object class in `type` again (1.9 used `class`)
+export const toTmx = (map: TiledMap) => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<map ${attributes({
+      version: map.version,
+      tiledversion: map.tiledversion,
+      orientation: map.orientation,
+      renderorder: map.renderorder,
+      width: map.width,
+      height: map.height,
+      tilewidth: map.tilewidth,
+      tileheight: map.tileheight,
+      infinite: 0,
+      backgroundcolor: map.backgroundcolor,
+      nextlayerid: map.nextlayerid,
+      nextobjectid: map.nextobjectid
+    })}>`,
+    ...propertiesXml(map.properties, ' ')
+  ]
+
+  map.layers.forEach(layer => {
+    if (layer.type === 'imagelayer') {
+      lines.push(
+        ` <imagelayer ${attributes({ id: layer.id, name: layer.name })}>`,
+        `  <image ${attributes({ source: layer.image, width: layer.imagewidth, height: layer.imageheight })}/>`,
+        ' </imagelayer>'
+      )
+      return
+    }
+
+    lines.push(` <objectgroup ${attributes({ id: layer.id, name: layer.name })}>`)
+    layer.objects.forEach(object => {
+      lines.push(
+        `  <object ${attributes({
+          id: object.id,
+          name: object.name,
+          type: object.type,
+          x: object.x,
+          y: object.y,
+          visible: object.visible ? undefined : 0
+        })}>`,
+        ...propertiesXml(object.properties, '   '),
+        '   <point/>',
+        '  </object>'
+      )
+    })
+    lines.push(' </objectgroup>')
+  })
+
+  lines.push('</map>')
+  return lines.join('\n')
+}
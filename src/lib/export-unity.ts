@@ -0,0 +1,141 @@
+import { getGridReference } from './grid'
+import type { MapLocation, MapSettings } from '../types/map'
+
+// Unity's default sprite import setting
+export const UNITY_PIXELS_PER_UNIT = 100
+
+export interface UnityVector2 {
+  x: number
+  y: number
+}
+
+export interface UnityMapProperty {
+  key: string
+  value: string
+}
+
+export interface UnityMapLocation {
+  id: string
+  name: string
+  type: MapLocation['type']
+  description: string
+  // World units, origin at the bottom-left corner of the map, y up
+  position: UnityVector2
+  // Original map pixels, origin top-left, y down
+  pixelPosition: UnityVector2
+  // Grid cell reference, e.g. "C7" or "4,-2" on hex grids
+  cell: string
+  visible: boolean
+  iconUrl: string
+  properties: UnityMapProperty[]
+}
+
+export interface UnityMapData {
+  mapName: string
+  description: string
+  pixelsPerUnit: number
+  size: UnityVector2
+  gridSize: number
+  gridType: MapSettings['gridType']
+  terrainType: MapSettings['terrainType']
+  biome: MapSettings['biome']
+  terrainImage: string
+  locations: UnityMapLocation[]
+}
+
+export interface UnityExportSource {
+  name: string
+  description: string
+  settings: MapSettings
+  locations: MapLocation[]
+  terrainImageUrl: string | null
+}
+
+// JsonUtility cannot read dictionaries, so custom properties become key/value pairs
+const toUnityProperty = (key: string, value: unknown): UnityMapProperty => ({
+  key,
+  value: typeof value === 'string' ? value : JSON.stringify(value ?? null)
+})
+
+// Shaped to match the MapData ScriptableObject below so JsonUtility.FromJsonOverwrite can load it
+export const buildUnityMapData = (source: UnityExportSource, pixelsPerUnit = UNITY_PIXELS_PER_UNIT): UnityMapData => {
+  const { settings } = source
+  return {
+    mapName: source.name,
+    description: source.description,
+    pixelsPerUnit,
+    size: { x: settings.width / pixelsPerUnit, y: settings.height / pixelsPerUnit },
+    gridSize: settings.gridSize / pixelsPerUnit,
+    gridType: settings.gridType,
+    terrainType: settings.terrainType,
+    biome: settings.biome,
+    terrainImage: source.terrainImageUrl || '',
+    locations: source.locations.map(location => ({
+      id: location.id,
+      name: location.name,
+      type: location.type,
+      description: location.description,
+      position: {
+        x: location.x / pixelsPerUnit,
+        y: (settings.height - location.y) / pixelsPerUnit
+      },
+      pixelPosition: { x: location.x, y: location.y },
+      cell: getGridReference(location, settings),
+      visible: location.visible,
+      iconUrl: location.iconUrl || '',
+      properties: Object.entries(location.properties).map(([key, value]) => toUnityProperty(key, value))
+    }))
+  }
+}
+
+export const UNITY_SCRIPT_FILE_NAME = 'MapData.cs'
+
+export const unityScriptableObjectSource = `using System;
+using System.Collections.Generic;
+using UnityEngine;
+
+// Generated by Map Maker. Load an exported map with MapData.FromJson(textAsset.text).
+[CreateAssetMenu(fileName = "MapData", menuName = "Map Maker/Map Data")]
+public class MapData : ScriptableObject
+{
+    public string mapName;
+    [TextArea] public string description;
+    public float pixelsPerUnit = ${UNITY_PIXELS_PER_UNIT};
+    public Vector2 size;
+    public float gridSize;
+    public string gridType;
+    public string terrainType;
+    public string biome;
+    public string terrainImage;
+    public List<MapLocationData> locations = new List<MapLocationData>();
+
+    public static MapData FromJson(string json)
+    {
+        var data = CreateInstance<MapData>();
+        JsonUtility.FromJsonOverwrite(json, data);
+        return data;
+    }
+}
+
+[Serializable]
+public class MapLocationData
+{
+    public string id;
+    public string name;
+    public string type;
+    [TextArea] public string description;
+    public Vector2 position;
+    public Vector2 pixelPosition;
+    public string cell;
+    public bool visible;
+    public string iconUrl;
+    public List<MapPropertyData> properties = new List<MapPropertyData>();
+}
+
+[Serializable]
+public class MapPropertyData
+{
+    public string key;
+    public string value;
+}
+`
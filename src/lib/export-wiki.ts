@@ -0,0 +1,236 @@
+import JSZip from 'jszip'
+import { toFileName } from './download'
+import { getGridReference } from './grid'
+import { locationColors, locationTypes } from './map-constants'
+import { escapeXml } from './xml'
+import { createZipImageWriter, isArchivePath, toEntryName } from './zip-images'
+import type { MapLocation, MapSettings } from '../types/map'
+
+export interface WikiSource {
+  name: string
+  description: string
+  settings: MapSettings
+  // Only the locations that should appear in the wiki (hidden ones are left out by the caller)
+  locations: MapLocation[]
+  // Rendered map image shown on the index page
+  mapImage: Blob
+}
+
+export interface WikiExport {
+  blob: Blob
+  // Icons that could not be downloaded and are linked by URL instead
+  missing: string[]
+}
+
+const MAP_IMAGE = 'map.png'
+
+const typeLabel = (type: MapLocation['type']) =>
+  locationTypes.find(t => t.value === type)?.label ?? type
+
+const formatValue = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value)
+
+// Give every location a stable, unique page name derived from its name
+const assignNames = (locations: MapLocation[], toName: (name: string) => string, separator: string) => {
+  const used = new Set<string>()
+  return new Map(locations.map(location => {
+    const base = toName(location.name)
+    let name = base
+    for (let index = 2; used.has(name.toLowerCase()); index++) name = `${base}${separator}${index}`
+    used.add(name.toLowerCase())
+    return [location.id, name] as const
+  }))
+}
+
+const groupByType = (locations: MapLocation[]) =>
+  locationTypes
+    .map(type => ({
+      type: type.value as MapLocation['type'],
+      label: type.label,
+      locations: locations
+        .filter(location => location.type === type.value)
+        .sort((a, b) => a.name.localeCompare(b.name))
+    }))
+    .filter(group => group.locations.length > 0)
+
+// Icons go into the archive so the wiki keeps working after generated URLs expire
+const collectIcons = async (zip: JSZip, locations: MapLocation[]) => {
+  const images = createZipImageWriter(zip)
+  const entries = await Promise.all(locations
+    .filter(location => location.iconUrl)
+    .map(async location =>
+      [location.id, await images.add(location.iconUrl!, `icons/${toEntryName(location.id)}`, location.name)] as const
+    ))
+  return { icons: new Map(entries), missing: images.missing }
+}
+
+// Hotspot positions as percentages so they follow the image when it scales
+const hotspotStyle = (location: MapLocation, settings: MapSettings) =>
+  `left:${(location.x / settings.width * 100).toFixed(3)}%;top:${(location.y / settings.height * 100).toFixed(3)}%`
+
+const siteStyles = `*{box-sizing:border-box}
+body{margin:0;font-family:system-ui,-apple-system,sans-serif;color:#0f172a;background:#f8fafc;line-height:1.5}
+main{max-width:1100px;margin:0 auto;padding:24px}
+a{color:#2563eb}
+h1{margin:0 0 8px}
+.lead{color:#475569;white-space:pre-line}
+.map{position:relative;margin:24px 0;border-radius:8px;overflow:hidden;box-shadow:0 1px 3px rgba(0,0,0,.2)}
+.map img{display:block;width:100%;height:auto}
+.hotspot{position:absolute;width:32px;height:32px;margin:-16px 0 0 -16px;border-radius:50%;border:2px solid transparent}
+.hotspot:hover,.hotspot:focus{border-color:#fbbf24;background:rgba(251,191,36,.25)}
+.hotspot span{position:absolute;left:50%;top:100%;transform:translateX(-50%);margin-top:4px;padding:2px 6px;border-radius:4px;background:rgba(0,0,0,.8);color:#fff;font-size:12px;white-space:nowrap;opacity:0;pointer-events:none}
+.hotspot:hover span,.hotspot:focus span{opacity:1}
+.groups{display:grid;grid-template-columns:repeat(auto-fill,minmax(220px,1fr));gap:16px}
+.groups ul{padding-left:18px;margin:4px 0}
+.dot{display:inline-block;width:10px;height:10px;border-radius:50%;margin-right:6px}
+.badge{display:inline-block;padding:2px 8px;border-radius:999px;color:#fff;font-size:12px}
+.icon{width:96px;height:96px;border-radius:8px;object-fit:cover;float:right;margin:0 0 16px 16px}
+table{border-collapse:collapse;margin-top:16px}
+th,td{border:1px solid #cbd5e1;padding:4px 10px;text-align:left;vertical-align:top}
+th{background:#f1f5f9}
+`
+
+const htmlPage = (title: string, stylesheet: string, body: string) => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" href="${stylesheet}">
+</head>
+<body>
+<main>
+${body}
+</main>
+</body>
+</html>
+`
+
+// A static site: index.html with the map and hotspots, plus one page per location
+export const createHtmlSite = async (source: WikiSource): Promise<WikiExport> => {
+  const zip = new JSZip()
+  const { icons, missing } = await collectIcons(zip, source.locations)
+  const pages = assignNames(source.locations, toFileName, '-')
+  const pagePath = (location: MapLocation) => `locations/${pages.get(location.id)}.html`
+
+  zip.file(MAP_IMAGE, source.mapImage)
+  zip.file('style.css', siteStyles)
+
+  const hotspots = source.locations.map(location =>
+    `<a class="hotspot" href="${pagePath(location)}" style="${hotspotStyle(location, source.settings)}" aria-label="${escapeXml(location.name)}">` +
+    `<span>${escapeXml(location.name)}</span></a>`
+  )
+  const groups = groupByType(source.locations).map(group =>
+    `<section><h2><span class="dot" style="background:${locationColors[group.type]}"></span>${escapeXml(group.label)}</h2><ul>\n` +
+    group.locations.map(location => `<li><a href="${pagePath(location)}">${escapeXml(location.name)}</a></li>`).join('\n') +
+    '\n</ul></section>'
+  )
+
+  zip.file('index.html', htmlPage(source.name, 'style.css', [
+    `<h1>${escapeXml(source.name)}</h1>`,
+    source.description ? `<p class="lead">${escapeXml(source.description)}</p>` : '',
+    `<div class="map"><img src="${MAP_IMAGE}" alt="${escapeXml(source.name)}" width="${source.settings.width}" height="${source.settings.height}">`,
+    ...hotspots,
+    '</div>',
+    `<div class="groups">\n${groups.join('\n')}\n</div>`
+  ].filter(Boolean).join('\n')))
+
+  source.locations.forEach(location => {
+    const icon = icons.get(location.id)
+    const properties = Object.entries(location.properties)
+    zip.file(pagePath(location), htmlPage(`${location.name} - ${source.name}`, '../style.css', [
+      `<p><a href="../index.html">&larr; ${escapeXml(source.name)}</a></p>`,
+      icon ? `<img class="icon" src="${escapeXml(isArchivePath(icon) ? `../${icon}` : icon)}" alt="">` : '',
+      `<h1>${escapeXml(location.name)}</h1>`,
+      `<p><span class="badge" style="background:${locationColors[location.type]}">${escapeXml(typeLabel(location.type))}</span> ` +
+        `Grid ${getGridReference(location, source.settings)}</p>`,
+      location.description ? `<p class="lead">${escapeXml(location.description)}</p>` : '',
+      properties.length > 0
+        ? '<table><tr><th>Property</th><th>Value</th></tr>\n' +
+          properties.map(([key, value]) => `<tr><td>${escapeXml(key)}</td><td>${escapeXml(formatValue(value))}</td></tr>`).join('\n') +
+          '\n</table>'
+        : ''
+    ].filter(Boolean).join('\n')))
+  })
+
+  return { blob: await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' }), missing }
+}
+
+// Obsidian note names cannot contain these characters, and wiki links break on [ ] | # ^
+const toNoteName = (name: string) =>
+  name.replace(/[\\/:*?"<>|#^[\]]/g, ' ').replace(/\s+/g, ' ').trim() || 'Untitled'
+
+const toYamlKey = (key: string) => /^[A-Za-z_][\w-]*$/.test(key) ? key : JSON.stringify(key)
+
+// JSON scalars, arrays and objects are all valid YAML flow values
+const toYamlValue = (value: unknown) => JSON.stringify(value ?? null)
+
+const escapeTableCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, '<br>')
+
+// An Obsidian vault folder: the map note with hotspot links plus one note per location
+export const createMarkdownVault = async (source: WikiSource): Promise<WikiExport> => {
+  const zip = new JSZip()
+  const { icons, missing } = await collectIcons(zip, source.locations)
+  const mapNote = toNoteName(source.name)
+  const notes = assignNames(source.locations, toNoteName, ' ')
+
+  zip.file(MAP_IMAGE, source.mapImage)
+
+  // Obsidian renders inline HTML; anchors with the internal-link class navigate between notes
+  const hotspots = source.locations.map(location =>
+    `<a class="internal-link" href="${escapeXml(`Locations/${notes.get(location.id)}`)}" ` +
+    `style="position:absolute;${hotspotStyle(location, source.settings)};width:28px;height:28px;margin:-14px 0 0 -14px;border-radius:50%" ` +
+    `title="${escapeXml(location.name)}"></a>`
+  )
+  const groups = groupByType(source.locations).map(group =>
+    `## ${group.label}\n\n` +
+    group.locations.map(location => `- [[Locations/${notes.get(location.id)}|${location.name.replace(/[|[\]]/g, ' ')}]]`).join('\n')
+  )
+
+  // The HTML block must not contain blank lines or Markdown rendering resumes inside it
+  const mapBlock = [
+    '<div style="position:relative">',
+    `<img src="${MAP_IMAGE}" style="display:block;width:100%">`,
+    ...hotspots,
+    '</div>'
+  ].join('\n')
+
+  zip.file(`${mapNote}.md`, [
+    `# ${source.name}`,
+    source.description,
+    mapBlock,
+    ...groups
+  ].filter(Boolean).join('\n\n') + '\n')
+
+  source.locations.forEach(location => {
+    const icon = icons.get(location.id)
+    const properties = Object.entries(location.properties)
+    const frontmatter = [
+      '---',
+      `id: ${toYamlValue(location.id)}`,
+      `type: ${location.type}`,
+      `grid: ${getGridReference(location, source.settings)}`,
+      `x: ${Math.round(location.x)}`,
+      `y: ${Math.round(location.y)}`,
+      `tags: [${location.type}]`,
+      ...(properties.length > 0
+        ? ['properties:', ...properties.map(([key, value]) => `  ${toYamlKey(key)}: ${toYamlValue(value)}`)]
+        : []),
+      '---'
+    ]
+
+    zip.file(`Locations/${notes.get(location.id)}.md`, [
+      frontmatter.join('\n'),
+      `# ${location.name}`,
+      icon ? (isArchivePath(icon) ? `![[${icon}|96]]` : `![icon|96](${icon})`) : '',
+      `**${typeLabel(location.type)}** · Grid ${getGridReference(location, source.settings)} · [[${mapNote}]]`,
+      location.description,
+      properties.length > 0
+        ? '| Property | Value |\n| --- | --- |\n' +
+          properties.map(([key, value]) => `| ${escapeTableCell(key)} | ${escapeTableCell(formatValue(value))} |`).join('\n')
+        : ''
+    ].filter(Boolean).join('\n\n') + '\n')
+  })
+
+  return { blob: await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' }), missing }
+}
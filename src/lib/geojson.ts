@@ -0,0 +1,258 @@
+import { z } from 'zod'
+import { coerceLocationType } from './location-csv'
+import { getGridReference, type Point } from './grid'
+import type { GeoBounds, MapLocation, MapSettings } from '../types/map'
+
+// Written next to the features so a re-import can restore the same mapping
+export interface MapProjection {
+  width: number
+  height: number
+  bounds: GeoBounds
+}
+
+export interface PointFeature {
+  type: 'Feature'
+  id?: string | number
+  geometry: { type: 'Point'; coordinates: [number, number] }
+  properties: Record<string, any>
+}
+
+export interface LocationFeatureCollection {
+  type: 'FeatureCollection'
+  name: string
+  bbox: [number, number, number, number]
+  mapProjection: MapProjection
+  features: PointFeature[]
+}
+
+const COORDINATE_PRECISION = 1e7
+
+// A small box on the equator keeps web-mercator tools (Leaflet, QGIS) from visibly
+// distorting the map, and follows the map's aspect ratio
+export const defaultGeoBounds = (settings: MapSettings): GeoBounds => {
+  const latSpan = settings.height / settings.width
+  return { west: -0.5, south: -latSpan / 2, east: 0.5, north: latSpan / 2 }
+}
+
+export const isValidGeoBounds = (bounds: GeoBounds) =>
+  [bounds.west, bounds.south, bounds.east, bounds.north].every(Number.isFinite) &&
+  bounds.east > bounds.west &&
+  bounds.north > bounds.south &&
+  bounds.west >= -180 && bounds.east <= 180 &&
+  bounds.south >= -90 && bounds.north <= 90
+
+const round = (value: number) => Math.round(value * COORDINATE_PRECISION) / COORDINATE_PRECISION
+
+// Pixel y grows downwards while latitude grows northwards
+export const pixelToLngLat = (point: Point, settings: MapSettings, bounds: GeoBounds): [number, number] => [
+  round(bounds.west + (point.x / settings.width) * (bounds.east - bounds.west)),
+  round(bounds.north - (point.y / settings.height) * (bounds.north - bounds.south))
+]
+
+export const lngLatToPixel = ([lng, lat]: [number, number], settings: MapSettings, bounds: GeoBounds): Point => ({
+  x: ((lng - bounds.west) / (bounds.east - bounds.west)) * settings.width,
+  y: ((bounds.north - lat) / (bounds.north - bounds.south)) * settings.height
+})
+
+// `cell` is derived from the position, so it is dropped rather than imported as a property
+const coreKeys = ['id', 'name', 'type', 'description', 'visible', 'iconUrl', 'cell']
+
+export const locationsToGeoJson = (
+  name: string,
+  locations: MapLocation[],
+  settings: MapSettings,
+  bounds: GeoBounds
+): LocationFeatureCollection => ({
+  type: 'FeatureCollection',
+  name,
+  bbox: [bounds.west, bounds.south, bounds.east, bounds.north],
+  mapProjection: { width: settings.width, height: settings.height, bounds },
+  features: locations.map(location => ({
+    type: 'Feature',
+    id: location.id,
+    geometry: { type: 'Point', coordinates: pixelToLngLat(location, settings, bounds) },
+    // GIS tools expect flat attributes; core fields win over custom properties of the same name
+    properties: {
+      ...location.properties,
+      id: location.id,
+      name: location.name,
+      type: location.type,
+      description: location.description,
+      visible: location.visible,
+      cell: getGridReference(location, settings),
+      ...(location.iconUrl ? { iconUrl: location.iconUrl } : {})
+    }
+  }))
+})
+
+const positionSchema = z.tuple([z.number(), z.number()]).rest(z.number())
+
+const geometrySchema = z.object({ type: z.string() }).passthrough()
+
+const featureSchema = z.object({
+  type: z.literal('Feature'),
+  id: z.union([z.string(), z.number()]).optional(),
+  geometry: geometrySchema.nullable(),
+  properties: z.record(z.string(), z.any()).nullable().optional()
+})
+
+const boundsSchema = z.object({
+  west: z.number(),
+  south: z.number(),
+  east: z.number(),
+  north: z.number()
+})
+
+const collectionSchema = z.object({
+  type: z.literal('FeatureCollection'),
+  features: z.array(z.unknown()),
+  mapProjection: z.object({ bounds: boundsSchema }).passthrough().optional()
+})
+
+export type ParseGeoJsonResult =
+  | { success: true; features: PointFeature[]; bounds: GeoBounds | null; warnings: string[] }
+  | { success: false; errors: string[] }
+
+const describeFeature = (index: number, properties: Record<string, any> | null | undefined) =>
+  typeof properties?.name === 'string' && properties.name
+    ? `Feature ${index + 1} ("${properties.name}")`
+    : `Feature ${index + 1}`
+
+// Accept a FeatureCollection, a single Feature or a bare geometry; only points become locations
+export const parseGeoJson = (text: string): ParseGeoJsonResult => {
+  let data: any
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { success: false, errors: ['File is not valid JSON'] }
+  }
+
+  let rawFeatures: unknown[]
+  let bounds: GeoBounds | null = null
+  if (data?.type === 'FeatureCollection') {
+    const collection = collectionSchema.safeParse(data)
+    if (!collection.success) return { success: false, errors: ['FeatureCollection has no features array'] }
+    rawFeatures = collection.data.features
+    const projected = collection.data.mapProjection?.bounds
+    bounds = projected && isValidGeoBounds(projected) ? projected : null
+  } else if (data?.type === 'Feature') {
+    rawFeatures = [data]
+  } else if (typeof data?.type === 'string' && 'coordinates' in data) {
+    rawFeatures = [{ type: 'Feature', geometry: data, properties: {} }]
+  } else {
+    return { success: false, errors: ['File is not GeoJSON'] }
+  }
+
+  const warnings: string[] = []
+  const features: PointFeature[] = []
+  rawFeatures.forEach((raw, index) => {
+    const result = featureSchema.safeParse(raw)
+    if (!result.success) {
+      warnings.push(`Feature ${index + 1}: not a valid GeoJSON feature`)
+      return
+    }
+
+    const { geometry, properties, id } = result.data
+    const label = describeFeature(index, properties)
+    const points = geometry?.type === 'Point'
+      ? [geometry.coordinates]
+      : geometry?.type === 'MultiPoint' && Array.isArray(geometry.coordinates)
+        ? geometry.coordinates
+        : null
+
+    if (!points) {
+      warnings.push(`${label}: ${geometry?.type || 'empty'} geometry skipped, only points become locations`)
+      return
+    }
+
+    points.forEach((coordinates: unknown, pointIndex: number) => {
+      const position = positionSchema.safeParse(coordinates)
+      if (!position.success) {
+        warnings.push(`${label}: invalid coordinates`)
+        return
+      }
+      features.push({
+        type: 'Feature',
+        id: points.length > 1 && id !== undefined ? `${id}-${pointIndex + 1}` : id,
+        geometry: { type: 'Point', coordinates: [position.data[0], position.data[1]] },
+        properties: properties ?? {}
+      })
+    })
+  })
+
+  if (features.length === 0) {
+    return { success: false, errors: ['No point features found', ...warnings] }
+  }
+
+  return { success: true, features, bounds, warnings }
+}
+
+// Bounds around the imported points, padded and widened to the map's aspect ratio
+export const fitGeoBounds = (features: PointFeature[], settings: MapSettings): GeoBounds => {
+  const lngs = features.map(feature => feature.geometry.coordinates[0])
+  const lats = features.map(feature => feature.geometry.coordinates[1])
+  let west = Math.min(...lngs)
+  let east = Math.max(...lngs)
+  let south = Math.min(...lats)
+  let north = Math.max(...lats)
+
+  const aspect = settings.width / settings.height
+  const lngSpan = Math.max(east - west, (north - south) * aspect, 1e-4) * 1.1
+  const latSpan = lngSpan / aspect
+  const centerLng = (west + east) / 2
+  const centerLat = (south + north) / 2
+
+  west = Math.max(-180, centerLng - lngSpan / 2)
+  east = Math.min(180, centerLng + lngSpan / 2)
+  south = Math.max(-90, centerLat - latSpan / 2)
+  north = Math.min(90, centerLat + latSpan / 2)
+
+  return { west: round(west), south: round(south), east: round(east), north: round(north) }
+}
+
+export interface GeoJsonLocations {
+  locations: MapLocation[]
+  // Points that fall outside the bounds and were left out
+  outside: number
+}
+
+const nameKeys = ['name', 'title', 'NAME', 'Name', 'label']
+
+export const featuresToLocations = (
+  features: PointFeature[],
+  settings: MapSettings,
+  bounds: GeoBounds,
+  defaultType: MapLocation['type']
+): GeoJsonLocations => {
+  const stamp = Date.now()
+  let outside = 0
+  const locations: MapLocation[] = []
+
+  features.forEach((feature, index) => {
+    const { x, y } = lngLatToPixel(feature.geometry.coordinates, settings, bounds)
+    if (x < 0 || y < 0 || x > settings.width || y > settings.height) {
+      outside++
+      return
+    }
+
+    const props = feature.properties
+    const nameKey = nameKeys.find(key => typeof props[key] === 'string' && props[key].trim())
+    const custom = Object.fromEntries(
+      Object.entries(props).filter(([key]) => !coreKeys.includes(key) && key !== nameKey)
+    )
+
+    locations.push({
+      id: String(props.id ?? feature.id ?? `geojson-${stamp}-${index}`),
+      type: (typeof props.type === 'string' && coerceLocationType(props.type)) || defaultType,
+      name: nameKey ? props[nameKey].trim() : `Point ${index + 1}`,
+      description: typeof props.description === 'string' ? props.description : '',
+      x,
+      y,
+      iconUrl: typeof props.iconUrl === 'string' && props.iconUrl ? props.iconUrl : undefined,
+      properties: custom,
+      visible: props.visible !== false
+    })
+  })
+
+  return { locations, outside }
+}
@@ -0,0 +1,178 @@
+import type { MapSettings } from '../types/map'
+
+export interface Point {
+  x: number
+  y: number
+}
+
+// Column and row for square grids, axial q and r for hex grids, and the two diagonal
+// axes for isometric grids
+export interface GridCell {
+  column: number
+  row: number
+}
+
+const SQRT3 = Math.sqrt(3)
+
+// Hexes are gridSize across their flats, so neighbouring centers are gridSize apart.
+// The radius is the distance from the center to a corner.
+const hexRadius = (settings: MapSettings) => settings.gridSize / SQRT3
+
+// Cell (0, 0) sits in the top-left corner of the map for square and hex grids; isometric
+// grids start from the top center, like Tiled's isometric maps
+const getGridOrigin = (settings: MapSettings): Point => {
+  switch (settings.gridType) {
+    case 'hex-flat': return { x: hexRadius(settings), y: settings.gridSize / 2 }
+    case 'hex-pointy': return { x: settings.gridSize / 2, y: hexRadius(settings) }
+    case 'isometric': return { x: settings.width / 2, y: 0 }
+    default: return { x: 0, y: 0 }
+  }
+}
+
+// Round fractional axial coordinates to the hex that contains them
+const roundAxial = (q: number, r: number): GridCell => {
+  const s = -q - r
+  let column = Math.round(q)
+  let row = Math.round(r)
+  const roundedS = Math.round(s)
+  const dq = Math.abs(column - q)
+  const dr = Math.abs(row - r)
+  const ds = Math.abs(roundedS - s)
+  if (dq > dr && dq > ds) column = -row - roundedS
+  else if (dr > ds) row = -column - roundedS
+  return { column, row }
+}
+
+export const getGridCell = (point: Point, settings: MapSettings): GridCell => {
+  const size = settings.gridSize
+  const origin = getGridOrigin(settings)
+  const x = point.x - origin.x
+  const y = point.y - origin.y
+
+  switch (settings.gridType) {
+    case 'hex-flat': {
+      const q = x / (1.5 * hexRadius(settings))
+      return roundAxial(q, y / size - q / 2)
+    }
+    case 'hex-pointy': {
+      const r = y / (1.5 * hexRadius(settings))
+      return roundAxial(x / size - r / 2, r)
+    }
+    case 'isometric': {
+      // Diamonds are twice as wide as they are tall
+      const u = x / size
+      const v = y / (size / 2)
+      return { column: Math.floor((v + u) / 2), row: Math.floor((v - u) / 2) }
+    }
+    default:
+      return { column: Math.floor(x / size), row: Math.floor(y / size) }
+  }
+}
+
+export const getCellCenter = (cell: GridCell, settings: MapSettings): Point => {
+  const size = settings.gridSize
+  const origin = getGridOrigin(settings)
+  const { column, row } = cell
+
+  switch (settings.gridType) {
+    case 'hex-flat':
+      return { x: origin.x + 1.5 * hexRadius(settings) * column, y: origin.y + size * (row + column / 2) }
+    case 'hex-pointy':
+      return { x: origin.x + size * (column + row / 2), y: origin.y + 1.5 * hexRadius(settings) * row }
+    case 'isometric':
+      return { x: origin.x + (column - row) * size, y: origin.y + (column + row + 1) * size / 2 }
+    default:
+      return { x: (column + 0.5) * size, y: (row + 0.5) * size }
+  }
+}
+
+export const clampToMap = (point: Point, settings: MapSettings): Point => ({
+  x: Math.min(settings.width, Math.max(0, point.x)),
+  y: Math.min(settings.height, Math.max(0, point.y))
+})
+
+// Snap a map-space point to the center of the grid cell containing it
+export const snapToGrid = (point: Point, settings: MapSettings): Point =>
+  clampToMap(getCellCenter(getGridCell(point, settings), settings), settings)
+
+const hexCorners = (center: Point, settings: MapSettings) => {
+  const radius = hexRadius(settings)
+  // Flat-top corners start at 0 degrees, pointy-top corners at -30
+  const start = settings.gridType === 'hex-flat' ? 0 : -Math.PI / 6
+  const corners = Array.from({ length: 6 }, (_, index) => ({
+    x: center.x + radius * Math.cos(start + index * Math.PI / 3),
+    y: center.y + radius * Math.sin(start + index * Math.PI / 3)
+  }))
+  return [...corners, corners[0]]
+}
+
+// Lines `y = offset + slope * x` clipped to the map, one per cell boundary
+const diagonalLines = (settings: MapSettings, slope: number, offsets: number[]): Point[][] =>
+  offsets.flatMap(offset => {
+    // Solve for the x range where 0 <= y <= height
+    const a = -offset / slope
+    const b = (settings.height - offset) / slope
+    const x0 = Math.max(0, Math.min(a, b))
+    const x1 = Math.min(settings.width, Math.max(a, b))
+    return x0 < x1 ? [[{ x: x0, y: offset + slope * x0 }, { x: x1, y: offset + slope * x1 }]] : []
+  })
+
+const range = (from: number, to: number) =>
+  Array.from({ length: Math.max(0, to - from + 1) }, (_, index) => from + index)
+
+// Polylines outlining every cell that touches the map, for canvas and SVG rendering.
+// Shared hex edges appear twice; callers stroke everything as one path.
+export const getGridLines = (settings: MapSettings): Point[][] => {
+  const { width, height, gridSize: size } = settings
+
+  switch (settings.gridType) {
+    case 'hex-flat':
+    case 'hex-pointy': {
+      const radius = hexRadius(settings)
+      const flat = settings.gridType === 'hex-flat'
+      const columns = flat ? Math.ceil(width / (1.5 * radius)) + 1 : Math.ceil(width / size) + 1
+      const rows = flat ? Math.ceil(height / size) + 1 : Math.ceil(height / (1.5 * radius)) + 1
+      // Walk offset coordinates so the cells cover the rectangular map
+      return range(-1, columns).flatMap(offsetColumn => range(-1, rows).map(offsetRow => {
+        const cell = flat
+          ? { column: offsetColumn, row: offsetRow - Math.floor(offsetColumn / 2) }
+          : { column: offsetColumn - Math.floor(offsetRow / 2), row: offsetRow }
+        return hexCorners(getCellCenter(cell, settings), settings)
+      }))
+    }
+    case 'isometric': {
+      const origin = getGridOrigin(settings)
+      // Boundaries between columns fall on y = k * size - (x - origin.x) / 2, between rows
+      // on y = k * size + (x - origin.x) / 2
+      const steps = range(-Math.ceil(width / size) - 1, Math.ceil((height + width) / size) + 1)
+      return [
+        ...diagonalLines(settings, -0.5, steps.map(k => k * size + origin.x / 2)),
+        ...diagonalLines(settings, 0.5, steps.map(k => k * size - origin.x / 2))
+      ]
+    }
+    default: {
+      const lines: Point[][] = []
+      for (let x = 0; x <= width; x += size) lines.push([{ x, y: 0 }, { x, y: height }])
+      for (let y = 0; y <= height; y += size) lines.push([{ x: 0, y }, { x: width, y }])
+      return lines
+    }
+  }
+}
+
+const toColumnLetters = (index: number): string => {
+  let letters = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters
+  }
+  return letters
+}
+
+// Cell reference shown in the location list and exports: atlas style for square grids,
+// e.g. "C7", and coordinate pairs for hex (axial q,r) and isometric grids, e.g. "4,-2"
+export const getGridReference = (point: Point, settings: MapSettings) => {
+  const cell = getGridCell(point, settings)
+  if (settings.gridType === 'square') {
+    return `${toColumnLetters(Math.max(0, cell.column))}${Math.max(0, cell.row) + 1}`
+  }
+  return `${cell.column},${cell.row}`
+}
@@ -0,0 +1,53 @@
+const INCHES_PER_METER = 39.3701
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff
+  for (const byte of bytes) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// PNG: insert a pHYs chunk right after the 33-byte signature + IHDR header
+const withPngDpi = (blob: Blob, dpi: number) => {
+  const pixelsPerMeter = Math.round(dpi * INCHES_PER_METER)
+  const chunk = new Uint8Array(21)
+  const view = new DataView(chunk.buffer)
+  view.setUint32(0, 9)
+  chunk.set([0x70, 0x48, 0x59, 0x73], 4) // "pHYs"
+  view.setUint32(8, pixelsPerMeter)
+  view.setUint32(12, pixelsPerMeter)
+  chunk[16] = 1 // unit: meter
+  view.setUint32(17, crc32(chunk.subarray(4, 17)))
+
+  return new Blob([blob.slice(0, 33), chunk, blob.slice(33)], { type: blob.type })
+}
+
+// JPEG: canvas encoders write a JFIF APP0 segment whose density fields we can patch
+const withJpegDpi = async (blob: Blob, dpi: number) => {
+  const head = new Uint8Array(await blob.slice(0, 18).arrayBuffer())
+  const isJfif = head[2] === 0xff && head[3] === 0xe0 &&
+    String.fromCharCode(...head.subarray(6, 10)) === 'JFIF'
+  if (!isJfif) return blob
+
+  const view = new DataView(head.buffer)
+  head[13] = 1 // unit: dots per inch
+  view.setUint16(14, dpi)
+  view.setUint16(16, dpi)
+  return new Blob([head, blob.slice(18)], { type: blob.type })
+}
+
+// Record the print resolution in the image metadata without re-encoding the pixels
+export const withDpi = async (blob: Blob, dpi: number): Promise<Blob> => {
+  if (blob.type === 'image/png') return withPngDpi(blob, dpi)
+  if (blob.type === 'image/jpeg') return withJpegDpi(blob, dpi)
+  return blob
+}
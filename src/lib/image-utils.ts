@@ -0,0 +1,29 @@
+// Load a cross-origin image so it can be drawn to (and read back from) a canvas
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error(`Failed to load image: ${src}`))
+    img.src = src
+  })
+
+export const fetchImage = async (src: string): Promise<Blob> => {
+  const response = await fetch(src)
+  if (!response.ok) throw new Error(`Failed to fetch image: ${src}`)
+  return response.blob()
+}
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+
+// Fetch an image and inline it so exported files do not depend on the original URL
+export const toDataUrl = async (src: string): Promise<string> => {
+  if (src.startsWith('data:')) return src
+  return blobToDataUrl(await fetchImage(src))
+}
@@ -0,0 +1,225 @@
+import { toCsv } from './csv'
+import { getGridReference } from './grid'
+import type { MapLocation, MapSettings } from '../types/map'
+
+const PROPERTY_PREFIX = 'properties.'
+
+// Grid cell reference written next to x/y for readers; derived, so never imported
+const CELL_COLUMN = 'cell'
+
+export const LOCATION_CSV_COLUMNS = ['id', 'type', 'name', 'description', 'x', 'y', 'visible', 'iconUrl'] as const
+
+export type LocationCsvField = typeof LOCATION_CSV_COLUMNS[number] | 'property' | 'ignore'
+
+export const locationCsvFieldLabels: Record<LocationCsvField, string> = {
+  id: 'ID',
+  type: 'Type',
+  name: 'Name',
+  description: 'Description',
+  x: 'X',
+  y: 'Y',
+  visible: 'Visible',
+  iconUrl: 'Icon URL',
+  property: 'Custom property',
+  ignore: 'Ignore'
+}
+
+// Nested property objects become dotted columns, e.g. `properties.loot.gold`
+const flattenProperties = (properties: Record<string, any>, prefix = ''): [string, string][] =>
+  Object.entries(properties).flatMap(([key, value]): [string, string][] => {
+    const path = `${prefix}${key}`
+    if (value !== null && typeof value === 'object' && !Array.isArray(value) && Object.keys(value).length > 0) {
+      return flattenProperties(value, `${path}.`)
+    }
+    if (typeof value === 'string') return [[path, value]]
+    return [[path, value === undefined ? '' : JSON.stringify(value)]]
+  })
+
+export const locationsToCsv = (locations: MapLocation[], settings: MapSettings) => {
+  const flattened = locations.map(location => new Map(flattenProperties(location.properties)))
+  const propertyKeys = [...new Set(flattened.flatMap(properties => [...properties.keys()]))]
+
+  const header = [...LOCATION_CSV_COLUMNS, CELL_COLUMN, ...propertyKeys.map(key => `${PROPERTY_PREFIX}${key}`)]
+  const rows = locations.map((location, index) => [
+    location.id,
+    location.type,
+    location.name,
+    location.description,
+    String(location.x),
+    String(location.y),
+    String(location.visible),
+    location.iconUrl || '',
+    getGridReference(location, settings),
+    ...propertyKeys.map(key => flattened[index].get(key) ?? '')
+  ])
+
+  return toCsv([header, ...rows])
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+const fieldSynonyms: Record<typeof LOCATION_CSV_COLUMNS[number], string[]> = {
+  id: ['id', 'locationid', 'key'],
+  type: ['type', 'category', 'kind', 'locationtype'],
+  name: ['name', 'title', 'locationname'],
+  description: ['description', 'desc', 'details', 'notes', 'summary'],
+  x: ['x', 'posx', 'positionx', 'xcoord'],
+  y: ['y', 'posy', 'positiony', 'ycoord'],
+  visible: ['visible', 'shown', 'show', 'visibility'],
+  iconUrl: ['iconurl', 'icon', 'iconimage', 'image']
+}
+
+// Map known headers to fields; every other column is kept as a custom property
+export const guessColumnMapping = (headers: string[]): LocationCsvField[] => {
+  const used = new Set<LocationCsvField>()
+  return headers.map(header => {
+    if (header.trim() === '') return 'ignore'
+    if (header.startsWith(PROPERTY_PREFIX)) return 'property'
+    if (normalize(header) === CELL_COLUMN) return 'ignore'
+
+    const match = LOCATION_CSV_COLUMNS.find(field =>
+      !used.has(field) && fieldSynonyms[field].includes(normalize(header))
+    )
+    if (!match) return 'property'
+    used.add(match)
+    return match
+  })
+}
+
+const typeSynonyms: Record<MapLocation['type'], string[]> = {
+  mission: ['mission', 'missions', 'quest', 'quests', 'task', 'objective'],
+  landmark: ['landmark', 'landmarks', 'poi', 'pointofinterest', 'place', 'location'],
+  shop: ['shop', 'shops', 'store', 'merchant', 'vendor', 'market', 'trader'],
+  npc: ['npc', 'npcs', 'character', 'person', 'people', 'nonplayercharacter'],
+  resource: ['resource', 'resources', 'material', 'ore', 'node', 'gathering']
+}
+
+// Accept the spellings writers use in spreadsheets ("Quest", "NPCs", "Store")
+export const coerceLocationType = (value: string): MapLocation['type'] | null => {
+  const normalized = normalize(value)
+  const match = Object.entries(typeSynonyms).find(([, synonyms]) => synonyms.includes(normalized))
+  return match ? match[0] as MapLocation['type'] : null
+}
+
+const coerceBoolean = (value: string): boolean | null => {
+  const normalized = value.trim().toLowerCase()
+  if (['true', 'yes', 'y', '1', 'visible', 'shown'].includes(normalized)) return true
+  if (['false', 'no', 'n', '0', 'hidden'].includes(normalized)) return false
+  return null
+}
+
+const coerceNumber = (value: string): number | null => {
+  const trimmed = value.trim()
+  if (trimmed === '') return null
+  const number = Number(trimmed)
+  return Number.isFinite(number) ? number : null
+}
+
+// Cells that hold JSON or numbers round-trip typed; anything else stays text
+const parsePropertyCell = (value: string): unknown => {
+  const trimmed = value.trim()
+  if (trimmed === '') return ''
+  try {
+    return JSON.parse(trimmed)
+  } catch {
+    return value
+  }
+}
+
+// Header paths come from the file, so they must not reach into object prototypes
+const UNSAFE_KEYS = ['__proto__', 'constructor', 'prototype']
+
+// Returns false, leaving the target untouched, for paths that are not safe to write
+const setPath = (target: Record<string, any>, path: string, value: unknown) => {
+  const keys = path.split('.')
+  if (keys.some(key => UNSAFE_KEYS.includes(key))) return false
+
+  let node = target
+  keys.slice(0, -1).forEach(key => {
+    if (node[key] === null || typeof node[key] !== 'object' || Array.isArray(node[key])) node[key] = {}
+    node = node[key]
+  })
+  node[keys[keys.length - 1]] = value
+  return true
+}
+
+// A location read from CSV; coordinates are missing when the row has none
+export type CsvLocationDraft = Omit<MapLocation, 'x' | 'y'> & { x?: number; y?: number }
+
+export interface ReadLocationRowsResult {
+  locations: CsvLocationDraft[]
+  warnings: string[]
+}
+
+export const readLocationRows = (
+  headers: string[],
+  rows: string[][],
+  mapping: LocationCsvField[],
+  defaultType: MapLocation['type']
+): ReadLocationRowsResult => {
+  const warnings: string[] = []
+  const locations: CsvLocationDraft[] = []
+  const stamp = Date.now()
+
+  rows.forEach((row, rowIndex) => {
+    // Row numbers match the spreadsheet, counting the header as row 1
+    const label = `Row ${rowIndex + 2}`
+    const cell = (field: LocationCsvField) => {
+      const column = mapping.indexOf(field)
+      return column === -1 ? '' : (row[column] ?? '').trim()
+    }
+
+    const name = cell('name')
+    if (!name) {
+      warnings.push(`${label}: skipped, no name`)
+      return
+    }
+
+    let type = defaultType
+    const typeText = cell('type')
+    if (typeText) {
+      const coerced = coerceLocationType(typeText)
+      if (coerced) type = coerced
+      else warnings.push(`${label} ("${name}"): unknown type "${typeText}", using ${defaultType}`)
+    }
+
+    const x = coerceNumber(cell('x'))
+    const y = coerceNumber(cell('y'))
+    if ((cell('x') && x === null) || (cell('y') && y === null)) {
+      warnings.push(`${label} ("${name}"): coordinates are not numbers`)
+    }
+
+    const visibleText = cell('visible')
+    const visible = visibleText ? coerceBoolean(visibleText) : true
+    if (visible === null) {
+      warnings.push(`${label} ("${name}"): unknown visibility "${visibleText}", showing it`)
+    }
+
+    const properties: Record<string, any> = {}
+    mapping.forEach((field, column) => {
+      if (field !== 'property' || !row[column]?.trim()) return
+      const key = headers[column].startsWith(PROPERTY_PREFIX)
+        ? headers[column].slice(PROPERTY_PREFIX.length)
+        : headers[column].trim()
+      if (key && !setPath(properties, key, parsePropertyCell(row[column]))) {
+        warnings.push(`${label} ("${name}"): skipped property "${key}"`)
+      }
+    })
+
+    locations.push({
+      id: cell('id') || `csv-${stamp}-${rowIndex}`,
+      type,
+      name,
+      description: cell('description'),
+      ...(x !== null && y !== null ? { x, y } : {}),
+      iconUrl: cell('iconUrl') || undefined,
+      properties,
+      visible: visible ?? true
+    })
+  })
+
+  return { locations, warnings }
+}
+
+export const hasCoordinates = (location: CsvLocationDraft): location is MapLocation =>
+  location.x !== undefined && location.y !== undefined
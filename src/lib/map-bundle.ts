@@ -0,0 +1,113 @@
+import JSZip from 'jszip'
+import { blink } from '../blink/client'
+import { fetchImage } from './image-utils'
+import { buildMapFile, parseMapFile, type MapFile, type ParseMapFileResult } from './map-file'
+import { createZipImageWriter, imageExtensions, imageTypes, isArchivePath, toEntryName } from './zip-images'
+
+// A bundle is a ZIP holding a regular map file as its manifest plus every image it uses.
+// Image fields in the manifest hold paths relative to the ZIP root.
+export const BUNDLE_MANIFEST = 'manifest.json'
+
+export interface MapBundle {
+  blob: Blob
+  // Images that could not be downloaded; their original URLs are kept in the manifest
+  missing: string[]
+}
+
+export const createMapBundle = async (
+  map: Parameters<typeof buildMapFile>[0],
+  userId: string
+): Promise<MapBundle> => {
+  const zip = new JSZip()
+  const file = buildMapFile(map, userId)
+  const images = createZipImageWriter(zip)
+
+  const terrainImageUrl = file.terrainImageUrl
+    ? await images.add(file.terrainImageUrl, 'terrain', 'Terrain')
+    : null
+  const locations = await Promise.all(file.locations.map(async location =>
+    location.iconUrl
+      ? { ...location, iconUrl: await images.add(location.iconUrl, `icons/${toEntryName(location.id)}`, location.name) }
+      : location
+  ))
+
+  zip.file(BUNDLE_MANIFEST, JSON.stringify({ ...file, terrainImageUrl, locations }, null, 2))
+  const blob = await zip.generateAsync({ type: 'blob', mimeType: 'application/zip' })
+  return { blob, missing: images.missing }
+}
+
+// Read a bundle back into a map file, inlining bundled images as data URLs so it can be
+// previewed without the network; uploadInlineImages stores them once the import is applied
+export const readMapBundle = async (data: Blob): Promise<ParseMapFileResult> => {
+  let zip: JSZip
+  try {
+    zip = await JSZip.loadAsync(data)
+  } catch {
+    return { success: false, errors: ['File is not a valid ZIP bundle'] }
+  }
+
+  const manifest = zip.file(BUNDLE_MANIFEST)
+  if (!manifest) {
+    return { success: false, errors: [`Bundle does not contain ${BUNDLE_MANIFEST}`] }
+  }
+
+  const result = parseMapFile(await manifest.async('string'))
+  if (!result.success) return result
+
+  const errors: string[] = []
+  const resolveImage = async (url: string, label: string) => {
+    if (!isArchivePath(url)) return url
+
+    const path = url.replace(/^\.?\//, '')
+    const entry = zip.file(path)
+    if (!entry) {
+      errors.push(`${label}: image "${path}" is missing from the bundle`)
+      return undefined
+    }
+    const type = imageTypes[path.split('.').pop()?.toLowerCase() || ''] || 'image/png'
+    return `data:${type};base64,${await entry.async('base64')}`
+  }
+
+  const { file } = result
+  const terrainImageUrl = file.terrainImageUrl
+    ? await resolveImage(file.terrainImageUrl, 'Terrain') ?? null
+    : null
+  const locations = await Promise.all(file.locations.map(async (location, index) =>
+    location.iconUrl
+      ? { ...location, iconUrl: await resolveImage(location.iconUrl, `Location ${index + 1} ("${location.name}")`) }
+      : location
+  ))
+
+  if (errors.length > 0) return { success: false, errors }
+
+  return { ...result, file: { ...file, terrainImageUrl, locations } }
+}
+
+// Move inlined images into storage before an import is applied. The map record is saved
+// on every edit, so it should hold URLs rather than image data. Shared icons upload once.
+export const uploadInlineImages = async (file: MapFile, folder: string): Promise<MapFile> => {
+  const uploads = new Map<string, Promise<string>>()
+  const upload = (url: string, name: string) => {
+    if (!url.startsWith('data:')) return Promise.resolve(url)
+    if (!uploads.has(url)) {
+      uploads.set(url, (async () => {
+        const blob = await fetchImage(url)
+        const path = `${folder}/${name}-${Date.now()}.${imageExtensions[blob.type] || 'png'}`
+        const { publicUrl } = await blink.storage.upload(blob, path)
+        return publicUrl
+      })())
+    }
+    return uploads.get(url)!
+  }
+
+  const terrainImageUrl = file.terrainImageUrl ? await upload(file.terrainImageUrl, 'terrain') : null
+  const locations = await Promise.all(file.locations.map(async location =>
+    location.iconUrl
+      ? { ...location, iconUrl: await upload(location.iconUrl, `icon-${toEntryName(location.id)}`) }
+      : location
+  ))
+  return { ...file, terrainImageUrl, locations }
+}
+
+export const isMapBundleFile = (file: File) =>
+  file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip'
@@ -0,0 +1,63 @@
+import {
+  MapPin,
+  Target,
+  ShoppingBag,
+  Users,
+  Gem,
+  Mountain,
+  Trees,
+  Waves,
+  Zap,
+  Home,
+  Grid3X3,
+  Hexagon,
+  Diamond,
+  Earth,
+  TreePalm
+} from 'lucide-react'
+import type { MapLocation } from '../types/map'
+
+export const locationTypes = [
+  { value: 'mission', label: 'Missions', icon: Target, color: 'bg-red-500' },
+  { value: 'landmark', label: 'Landmarks', icon: MapPin, color: 'bg-blue-500' },
+  { value: 'shop', label: 'Shops', icon: ShoppingBag, color: 'bg-green-500' },
+  { value: 'npc', label: 'NPCs', icon: Users, color: 'bg-purple-500' },
+  { value: 'resource', label: 'Resources', icon: Gem, color: 'bg-yellow-500' }
+]
+
+export const terrainTypes = [
+  { value: 'fantasy', label: 'Fantasy', icon: Mountain },
+  { value: 'modern', label: 'Modern', icon: Home },
+  { value: 'sci-fi', label: 'Sci-Fi', icon: Zap },
+  { value: 'medieval', label: 'Medieval', icon: Mountain }
+]
+
+export const biomes = [
+  { value: 'forest', label: 'Forest', icon: Trees, color: '#22c55e' },
+  { value: 'desert', label: 'Desert', icon: Mountain, color: '#f59e0b' },
+  { value: 'mountain', label: 'Mountain', icon: Mountain, color: '#6b7280' },
+  { value: 'ocean', label: 'Ocean', icon: Waves, color: '#3b82f6' },
+  { value: 'urban', label: 'Urban', icon: Home, color: '#64748b' },
+  { value: 'space', label: 'Space', icon: Zap, color: '#8b5cf6' }
+]
+
+export const gridTypes = [
+  { value: 'square', label: 'Square', icon: Grid3X3 },
+  { value: 'hex-flat', label: 'Hex (flat top)', icon: Hexagon },
+  { value: 'hex-pointy', label: 'Hex (pointy top)', icon: Hexagon },
+  { value: 'isometric', label: 'Isometric', icon: Diamond }
+]
+
+export const landShapes = [
+  { value: 'continent', label: 'Continent', icon: Earth },
+  { value: 'island', label: 'Island', icon: TreePalm }
+]
+
+// Canvas colors matching the Tailwind classes in `locationTypes`
+export const locationColors: Record<MapLocation['type'], string> = {
+  mission: '#ef4444',
+  landmark: '#3b82f6',
+  shop: '#22c55e',
+  npc: '#a855f7',
+  resource: '#eab308'
+}
@@ -0,0 +1,245 @@
+import { z } from 'zod'
+import { seedFromString } from './procedural-terrain'
+import {
+  defaultLocationTypeDistribution,
+  defaultMapSettings,
+  type LocationTypeDistribution,
+  type MapLocation,
+  type MapSettings
+} from '../types/map'
+
+// Version written by `buildMapFile`. Bump it together with a new entry in `migrations`.
+export const MAP_FILE_VERSION = '1.4'
+
+const locationTypeSchema = z.enum(['mission', 'landmark', 'shop', 'npc', 'resource'])
+
+const locationSchema = z.object({
+  id: z.string().min(1),
+  type: locationTypeSchema,
+  name: z.string().min(1),
+  description: z.string(),
+  x: z.number(),
+  y: z.number(),
+  iconUrl: z.string().optional(),
+  properties: z.record(z.string(), z.any()),
+  visible: z.boolean()
+})
+
+const settingsSchema = z.object({
+  width: z.number().int().positive(),
+  height: z.number().int().positive(),
+  gridSize: z.number().positive(),
+  gridType: z.enum(['square', 'hex-flat', 'hex-pointy', 'isometric']),
+  showGrid: z.boolean(),
+  backgroundColor: z.string(),
+  terrainType: z.enum(['fantasy', 'modern', 'sci-fi', 'medieval']),
+  biome: z.enum(['forest', 'desert', 'mountain', 'ocean', 'urban', 'space']),
+  seed: z.number().int().nonnegative(),
+  seaLevel: z.number().min(0).max(1),
+  mountainFrequency: z.number().min(0).max(1),
+  landShape: z.enum(['island', 'continent']),
+  erosionPasses: z.number().int().nonnegative(),
+  geoBounds: z.object({ west: z.number(), south: z.number(), east: z.number(), north: z.number() }).optional()
+})
+
+const mapFileSchema = z.object({
+  name: z.string(),
+  description: z.string(),
+  terrainImageUrl: z.string().nullable(),
+  locationTypeDistribution: z.record(locationTypeSchema, z.number()),
+  settings: settingsSchema,
+  locations: z.array(locationSchema),
+  metadata: z.object({
+    createdBy: z.string().optional(),
+    createdAt: z.string().optional(),
+    version: z.literal(MAP_FILE_VERSION)
+  })
+})
+
+export type MapFile = z.infer<typeof mapFileSchema>
+
+export type ImportMode = 'replace' | 'merge'
+
+export type ParseMapFileResult =
+  | { success: true; file: MapFile; migratedFrom: string | null }
+  | { success: false; errors: string[] }
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const toNumber = (value: unknown) =>
+  typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value
+
+// Each migration upgrades raw file data from its key version to the next one
+const migrations: { from: string; to: string; migrate: (data: Record<string, any>) => Record<string, any> }[] = [
+  {
+    // Files written before `metadata.version` existed: partial settings and bare locations
+    from: '0',
+    to: '1.0',
+    migrate: data => ({
+      ...data,
+      settings: { ...defaultMapSettings, ...(isRecord(data.settings) ? data.settings : {}) },
+      locations: Array.isArray(data.locations)
+        ? data.locations.map((location: unknown, index: number) => isRecord(location)
+          ? {
+              ...location,
+              id: location.id ?? `imported-${Date.now()}-${index}`,
+              description: location.description ?? '',
+              x: toNumber(location.x),
+              y: toNumber(location.y),
+              properties: location.properties ?? {},
+              visible: location.visible ?? true
+            }
+          : location)
+        : data.locations,
+      metadata: { ...(isRecord(data.metadata) ? data.metadata : {}), version: '1.0' }
+    })
+  },
+  {
+    // 1.1 carries the rest of the map document alongside settings and locations
+    from: '1.0',
+    to: '1.1',
+    migrate: data => ({
+      ...data,
+      name: data.name ?? 'Imported Map',
+      description: data.description ?? '',
+      terrainImageUrl: data.terrainImageUrl ?? null,
+      locationTypeDistribution: data.locationTypeDistribution ?? defaultLocationTypeDistribution,
+      metadata: { ...data.metadata, version: '1.1' }
+    })
+  },
+  {
+    // 1.2 adds hex and isometric grids; older maps always used square cells
+    from: '1.1',
+    to: '1.2',
+    migrate: data => ({
+      ...data,
+      settings: isRecord(data.settings) ? { gridType: 'square', ...data.settings } : data.settings,
+      metadata: { ...data.metadata, version: '1.2' }
+    })
+  },
+  {
+    // 1.3 stores the procedural terrain seed; derive one from the map name so older files
+    // always import with the same terrain
+    from: '1.2',
+    to: '1.3',
+    migrate: data => ({
+      ...data,
+      settings: isRecord(data.settings)
+        ? { seed: seedFromString(String(data.name ?? '')), ...data.settings }
+        : data.settings,
+      metadata: { ...data.metadata, version: '1.3' }
+    })
+  },
+  {
+    // 1.4 adds the terrain generator controls
+    from: '1.3',
+    to: '1.4',
+    migrate: data => ({
+      ...data,
+      settings: isRecord(data.settings)
+        ? {
+            seaLevel: defaultMapSettings.seaLevel,
+            mountainFrequency: defaultMapSettings.mountainFrequency,
+            landShape: defaultMapSettings.landShape,
+            erosionPasses: defaultMapSettings.erosionPasses,
+            ...data.settings
+          }
+        : data.settings,
+      metadata: { ...data.metadata, version: '1.4' }
+    })
+  }
+]
+
+const formatIssue = (issue: z.core.$ZodIssue, data: Record<string, any>) => {
+  const [section, index, ...field] = issue.path
+
+  if (section === 'locations' && typeof index === 'number') {
+    const location = Array.isArray(data.locations) ? data.locations[index] : undefined
+    const label = isRecord(location) && typeof location.name === 'string' && location.name
+      ? `Location ${index + 1} ("${location.name}")`
+      : `Location ${index + 1}`
+    return field.length > 0
+      ? `${label}: ${field.join('.')} - ${issue.message}`
+      : `${label}: ${issue.message}`
+  }
+
+  return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+}
+
+// Parse, migrate and validate the contents of an exported map file
+export const parseMapFile = (text: string): ParseMapFileResult => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return { success: false, errors: ['File is not valid JSON'] }
+  }
+
+  if (!isRecord(data)) {
+    return { success: false, errors: ['File does not contain a map object'] }
+  }
+
+  const originalVersion: string = isRecord(data.metadata) && typeof data.metadata.version === 'string'
+    ? data.metadata.version
+    : '0'
+
+  let migrated = data
+  let version = originalVersion
+  while (version !== MAP_FILE_VERSION) {
+    const migration = migrations.find(m => m.from === version)
+    if (!migration) {
+      return { success: false, errors: [`Unsupported map file version "${originalVersion}"`] }
+    }
+    migrated = migration.migrate(migrated)
+    version = migration.to
+  }
+
+  const result = mapFileSchema.safeParse(migrated)
+  if (!result.success) {
+    return { success: false, errors: result.error.issues.map(issue => formatIssue(issue, migrated)) }
+  }
+
+  return {
+    success: true,
+    file: result.data,
+    migratedFrom: originalVersion === MAP_FILE_VERSION ? null : originalVersion
+  }
+}
+
+// Strip runtime-only fields (like the cached `_iconImage`) from a location
+export const toPlainLocation = ({ id, type, name, description, x, y, iconUrl, properties, visible }: MapLocation): MapLocation => ({
+  id, type, name, description, x, y, iconUrl, properties, visible
+})
+
+export const buildMapFile = (map: {
+  name: string
+  description: string
+  settings: MapSettings
+  locations: MapLocation[]
+  terrainImageUrl: string | null
+  locationTypeDistribution: LocationTypeDistribution
+}, userId: string): MapFile => ({
+  name: map.name,
+  description: map.description,
+  terrainImageUrl: map.terrainImageUrl,
+  locationTypeDistribution: map.locationTypeDistribution,
+  settings: map.settings,
+  locations: map.locations.map(toPlainLocation),
+  metadata: {
+    createdBy: userId,
+    createdAt: new Date().toISOString(),
+    version: MAP_FILE_VERSION
+  }
+})
+
+// Append imported locations, re-keying any whose id already exists on the map
+export const mergeLocations = (current: MapLocation[], incoming: MapLocation[]): MapLocation[] => {
+  const usedIds = new Set(current.map(location => location.id))
+  const merged = incoming.map((location, index) => {
+    const id = usedIds.has(location.id) ? `imported-${Date.now()}-${index}` : location.id
+    usedIds.add(id)
+    return { ...location, id }
+  })
+  return [...current, ...merged]
+}
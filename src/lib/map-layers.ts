@@ -0,0 +1,307 @@
+import { loadImage } from './image-utils'
+import {
+  drawGrid,
+  drawLocationHover,
+  drawLocationLabel,
+  drawLocationMarker,
+  drawLocations,
+  drawLocationSelection,
+  drawRegionOutline,
+  drawTerrain,
+  getLabelBounds,
+  getMarkerBounds,
+  isPointOnMarker
+} from './map-renderer'
+import {
+  containsRect,
+  createSpatialIndex,
+  intersectRects,
+  unionRects,
+  type Rect,
+  type SpatialIndex
+} from './spatial-index'
+import type { Point } from './grid'
+import type { Size, Viewport } from './viewport'
+import type { MapLocation, MapSettings } from '../types/map'
+
+// Cached layers are capped so deep zoom on big maps cannot exhaust memory
+const MAX_LAYER_PIXELS = 4096 * 4096
+
+export interface MapView {
+  settings: MapSettings
+  terrain: CanvasImageSource | null
+  locations: MapLocation[]
+  selectedId: string | null
+  // A location being dragged is lifted out of the marker layer and drawn at its drag position
+  dragged: { id: string; x: number; y: number } | null
+  // Outline of the terrain region selected for repainting
+  region: Point[] | null
+}
+
+interface Layer {
+  canvas: HTMLCanvasElement
+  // Inputs the layer was painted from; compared by identity to decide on a repaint
+  key: unknown[]
+}
+
+// Everything derived from the locations and their loaded icons
+interface MarkerScene {
+  key: unknown[]
+  icons: Map<string, HTMLImageElement>
+  index: SpatialIndex<MapLocation>
+  // The map plus whatever markers and labels near its edges draw past it
+  extent: Rect
+}
+
+export type ViewportListener = (viewport: Viewport, size: Size) => void
+
+export interface MapRenderer {
+  update: (view: MapView) => void
+  getViewport: () => Viewport
+  setViewport: (viewport: Viewport) => void
+  // Canvas size in CSS pixels, the unit viewport screen coordinates are in
+  getSize: () => Size
+  // Match the backing store to the displayed size and device pixel ratio
+  resize: (size: Size, pixelRatio: number) => void
+  // Called whenever the viewport or canvas size changes; returns an unsubscribe function
+  onViewportChange: (listener: ViewportListener) => () => void
+  setHovered: (id: string | null) => void
+  // Topmost visible location whose marker is under the map-space point
+  hitTest: (point: Point) => MapLocation | null
+  requestRender: () => void
+  destroy: () => void
+}
+
+// Layers are painted at a power-of-two scale at or above the zoom, so zooming only
+// repaints them when crossing a doubling
+const getLayerScale = (settings: MapSettings, zoom: number) => {
+  const maxScale = Math.sqrt(MAX_LAYER_PIXELS / (settings.width * settings.height))
+  return Math.min(maxScale, 2 ** Math.max(0, Math.ceil(Math.log2(zoom))))
+}
+
+const sameKey = (a: unknown[], b: unknown[]) =>
+  a.length === b.length && a.every((value, index) => value === b[index])
+
+const paintLayer = (
+  layer: Layer | null,
+  key: unknown[],
+  region: Rect,
+  scale: number,
+  paint: (ctx: CanvasRenderingContext2D) => void
+): Layer => {
+  if (layer && sameKey(layer.key, key)) return layer
+
+  const canvas = layer?.canvas ?? document.createElement('canvas')
+  const width = Math.max(1, Math.round(region.width * scale))
+  const height = Math.max(1, Math.round(region.height * scale))
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width
+    canvas.height = height
+  }
+
+  const ctx = canvas.getContext('2d')
+  if (ctx) {
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.clearRect(0, 0, width, height)
+    ctx.setTransform(scale, 0, 0, scale, -region.x * scale, -region.y * scale)
+    paint(ctx)
+  }
+  return { canvas, key }
+}
+
+// The marker layer covers the viewport plus half a screen on each side, so short pans
+// reuse it and only markers near the viewport are painted
+const getMarkerRegion = (visible: Rect, extent: Rect) =>
+  intersectRects({
+    x: Math.floor(visible.x - visible.width / 2),
+    y: Math.floor(visible.y - visible.height / 2),
+    width: Math.ceil(visible.width * 2) + 1,
+    height: Math.ceil(visible.height * 2) + 1
+  }, extent)!
+
+// Renders the map as cached layers (terrain + grid, markers) composited under a per-frame
+// overlay (hover, selection, dragged marker). Panning only re-composites the cached bitmaps.
+export const createMapRenderer = (getCanvas: () => HTMLCanvasElement | null): MapRenderer => {
+  let view: MapView | null = null
+  let viewport: Viewport = { pan: { x: 0, y: 0 }, zoom: 1 }
+  let size: Size = { width: 0, height: 0 }
+  let pixelRatio = 1
+  let hoveredId: string | null = null
+  let frame: number | null = null
+  let terrainLayer: Layer | null = null
+  let markerLayer: Layer | null = null
+  let markerRegion: Rect | null = null
+  let scene: MarkerScene | null = null
+  const viewportListeners = new Set<ViewportListener>()
+
+  const notifyViewport = () => viewportListeners.forEach(listener => listener(viewport, size))
+
+  // Loaded icon images by URL, shared by every location using the same icon
+  const icons = new Map<string, HTMLImageElement>()
+  const requestedIcons = new Set<string>()
+  let iconVersion = 0
+
+  // Label widths are measured on a scratch context so hit testing works before the first frame
+  const measureCtx = document.createElement('canvas').getContext('2d')
+
+  const requestRender = () => {
+    if (frame !== null) return
+    frame = requestAnimationFrame(() => {
+      frame = null
+      render()
+    })
+  }
+
+  const loadIcon = (url: string) => {
+    if (requestedIcons.has(url)) return
+    requestedIcons.add(url)
+    loadImage(url)
+      .then(image => {
+        icons.set(url, image)
+        iconVersion++
+        requestRender()
+      })
+      // Until (or unless) the image loads, the default marker is shown
+      .catch(error => console.error('Error loading location icon:', error))
+  }
+
+  // Marker size depends on whether the icon has loaded, so the index follows icon loads too
+  const getScene = (settings: MapSettings, locations: MapLocation[]) => {
+    const key = [locations, iconVersion, settings.width, settings.height]
+    if (scene && sameKey(scene.key, key)) return scene
+
+    const locationIcons = new Map<string, HTMLImageElement>()
+    locations.forEach(location => {
+      if (!location.iconUrl) return
+      const icon = icons.get(location.iconUrl)
+      if (icon) locationIcons.set(location.id, icon)
+      else loadIcon(location.iconUrl)
+    })
+
+    const map = { x: 0, y: 0, width: settings.width, height: settings.height }
+    const visibleLocations = locations.filter(location => location.visible)
+    const getBounds = (location: MapLocation) => {
+      const marker = getMarkerBounds(location, locationIcons.has(location.id))
+      return measureCtx ? unionRects(marker, getLabelBounds(measureCtx, location)) : marker
+    }
+    const index = createSpatialIndex(map, visibleLocations, getBounds)
+    const extent = visibleLocations.reduce((rect, location) => unionRects(rect, getBounds(location)), map)
+
+    scene = { key, icons: locationIcons, index, extent }
+    return scene
+  }
+
+  const render = () => {
+    const canvas = getCanvas()
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx || !view) return
+
+    const { settings, terrain, locations, selectedId, dragged, region: selectedRegion } = view
+    const { pan, zoom } = viewport
+    // Layers are painted in device pixels so they stay sharp on HiDPI screens
+    const scale = getLayerScale(settings, zoom * pixelRatio)
+    const { icons: locationIcons, index, extent } = getScene(settings, locations)
+    const map = { x: 0, y: 0, width: settings.width, height: settings.height }
+    // Markers are painted wherever they reach, including past the map's edges
+    const visible = intersectRects({ x: -pan.x, y: -pan.y, width: size.width / zoom, height: size.height / zoom }, extent)
+
+    terrainLayer = paintLayer(terrainLayer, [settings, terrain, scale], map, scale, layerCtx => {
+      drawTerrain(layerCtx, settings, terrain)
+      if (settings.showGrid) drawGrid(layerCtx, settings, !!terrain)
+    })
+
+    if (visible && (!markerRegion || !containsRect(markerRegion, visible) || !containsRect(extent, markerRegion))) {
+      markerRegion = getMarkerRegion(visible, extent)
+    }
+    const region = markerRegion
+    if (region) {
+      markerLayer = paintLayer(markerLayer, [index, dragged?.id, scale, region], region, scale, layerCtx => {
+        drawLocations(layerCtx, {
+          locations: index.search(region).filter(location => location.id !== dragged?.id),
+          icons: locationIcons,
+          showLabels: true,
+          showHidden: false
+        })
+      })
+    }
+
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    const deviceZoom = zoom * pixelRatio
+    ctx.setTransform(deviceZoom, 0, 0, deviceZoom, pan.x * deviceZoom, pan.y * deviceZoom)
+    ctx.drawImage(terrainLayer.canvas, 0, 0, settings.width, settings.height)
+    if (markerLayer && region) {
+      ctx.drawImage(markerLayer.canvas, region.x, region.y, region.width, region.height)
+    }
+
+    // Overlay: redrawn every frame, so it only holds what changes often
+    if (selectedRegion) drawRegionOutline(ctx, selectedRegion, zoom)
+
+    const draggedLocation = dragged && locations.find(location => location.id === dragged.id)
+    if (draggedLocation) {
+      const moved = { ...draggedLocation, x: dragged.x, y: dragged.y }
+      drawLocationMarker(ctx, moved, locationIcons.get(moved.id) || null, true)
+      drawLocationLabel(ctx, moved)
+      return
+    }
+
+    const hovered = hoveredId !== selectedId && locations.find(location => location.id === hoveredId)
+    if (hovered && hovered.visible) drawLocationHover(ctx, hovered, locationIcons.has(hovered.id))
+
+    const selected = locations.find(location => location.id === selectedId)
+    if (selected?.visible) drawLocationSelection(ctx, selected, locationIcons.has(selected.id))
+  }
+
+  return {
+    update: next => {
+      view = next
+      requestRender()
+    },
+    getViewport: () => viewport,
+    setViewport: next => {
+      viewport = next
+      requestRender()
+      notifyViewport()
+    },
+    getSize: () => size,
+    resize: (nextSize, nextPixelRatio) => {
+      size = nextSize
+      pixelRatio = nextPixelRatio
+      notifyViewport()
+      const canvas = getCanvas()
+      if (!canvas) return
+      const width = Math.max(1, Math.round(size.width * pixelRatio))
+      const height = Math.max(1, Math.round(size.height * pixelRatio))
+      if (canvas.width === width && canvas.height === height) return
+      canvas.width = width
+      canvas.height = height
+      // Resizing clears the canvas, so repaint now rather than flash blank for a frame
+      if (frame !== null) cancelAnimationFrame(frame)
+      frame = null
+      render()
+    },
+    onViewportChange: listener => {
+      viewportListeners.add(listener)
+      listener(viewport, size)
+      return () => viewportListeners.delete(listener)
+    },
+    setHovered: id => {
+      if (id === hoveredId) return
+      hoveredId = id
+      requestRender()
+    },
+    hitTest: point => {
+      if (!view) return null
+      const { icons: locationIcons, index } = getScene(view.settings, view.locations)
+      const hits = index.searchPoint(point)
+        .filter(location => isPointOnMarker(point, location, locationIcons.has(location.id)))
+      // Later locations are drawn on top, so they win
+      return hits[hits.length - 1] ?? null
+    },
+    requestRender,
+    destroy: () => {
+      if (frame !== null) cancelAnimationFrame(frame)
+      frame = null
+    }
+  }
+}
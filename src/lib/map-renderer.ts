@@ -0,0 +1,191 @@
+import { locationColors } from './map-constants'
+import { getProceduralTerrain } from './procedural-terrain'
+import { getGridLines, type Point } from './grid'
+import type { Rect } from './spatial-index'
+import type { MapLocation, MapSettings } from '../types/map'
+
+// Shared by the on-screen canvas and offscreen exports so both paint identically
+export type MapContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+export const MARKER_RADIUS = 16
+export const ICON_SIZE = 24
+export const LABEL_OFFSET = 28
+
+export const locationGlyphs: Record<MapLocation['type'], string> = {
+  mission: '⚔',
+  landmark: '🏛',
+  shop: '🏪',
+  npc: '👤',
+  resource: '💎'
+}
+
+export const drawTerrain = (ctx: MapContext, settings: MapSettings, terrain: CanvasImageSource | null) => {
+  // Draw terrain image if available, otherwise the map's seeded procedural terrain
+  ctx.drawImage(terrain ?? getProceduralTerrain(settings), 0, 0, settings.width, settings.height)
+}
+
+export const drawGrid = (ctx: MapContext, settings: MapSettings, hasTerrain: boolean) => {
+  ctx.strokeStyle = hasTerrain ? 'rgba(255, 255, 255, 0.3)' : 'rgba(0, 0, 0, 0.1)'
+  ctx.lineWidth = 1
+
+  // One stroke for the whole grid, so edges shared by two cells are not drawn darker
+  ctx.beginPath()
+  getGridLines(settings).forEach(([first, ...rest]) => {
+    ctx.moveTo(first.x, first.y)
+    rest.forEach(point => ctx.lineTo(point.x, point.y))
+  })
+  ctx.stroke()
+}
+
+const drawSelectionRing = (ctx: MapContext, location: MapLocation, radius: number) => {
+  ctx.beginPath()
+  ctx.arc(location.x, location.y, radius, 0, 2 * Math.PI)
+  ctx.strokeStyle = '#fbbf24'
+  ctx.lineWidth = 3
+  ctx.stroke()
+
+  // Add pulsing effect
+  ctx.beginPath()
+  ctx.arc(location.x, location.y, radius + 4, 0, 2 * Math.PI)
+  ctx.strokeStyle = 'rgba(251, 191, 36, 0.5)'
+  ctx.lineWidth = 2
+  ctx.stroke()
+}
+
+// Draw a location's custom icon, or the default type marker while no icon is available
+export const drawLocationMarker = (
+  ctx: MapContext,
+  location: MapLocation,
+  icon: CanvasImageSource | null,
+  selected: boolean
+) => {
+  if (icon) {
+    ctx.drawImage(icon, location.x - ICON_SIZE/2, location.y - ICON_SIZE/2, ICON_SIZE, ICON_SIZE)
+    if (selected) drawSelectionRing(ctx, location, 18)
+    return
+  }
+
+  // Draw location background circle (larger)
+  ctx.beginPath()
+  ctx.arc(location.x, location.y, MARKER_RADIUS, 0, 2 * Math.PI)
+  ctx.fillStyle = 'rgba(255, 255, 255, 0.9)'
+  ctx.fill()
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)'
+  ctx.lineWidth = 1
+  ctx.stroke()
+
+  // Draw location type circle
+  ctx.beginPath()
+  ctx.arc(location.x, location.y, 12, 0, 2 * Math.PI)
+  ctx.fillStyle = locationColors[location.type] || '#3b82f6'
+  ctx.fill()
+
+  if (selected) drawSelectionRing(ctx, location, 20)
+
+  // Draw location icon (simplified)
+  ctx.fillStyle = 'white'
+  ctx.font = 'bold 10px Inter'
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(locationGlyphs[location.type] || '?', location.x, location.y)
+}
+
+// Highlight ring around a selected location, sized to its custom icon or default marker
+export const drawLocationSelection = (ctx: MapContext, location: MapLocation, hasIcon: boolean) => {
+  drawSelectionRing(ctx, location, hasIcon ? 18 : 20)
+}
+
+// Dashed outline of a terrain region being selected. Widths are divided by the zoom so
+// the outline stays the same on screen.
+export const drawRegionOutline = (ctx: MapContext, points: Point[], zoom: number) => {
+  if (points.length < 2) return
+
+  ctx.beginPath()
+  points.forEach(({ x, y }, index) => index === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y))
+  ctx.closePath()
+  ctx.fillStyle = 'rgba(251, 191, 36, 0.15)'
+  ctx.fill()
+  ctx.lineWidth = 3 / zoom
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)'
+  ctx.setLineDash([])
+  ctx.stroke()
+  ctx.lineWidth = 1.5 / zoom
+  ctx.strokeStyle = '#fbbf24'
+  ctx.setLineDash([6 / zoom, 4 / zoom])
+  ctx.stroke()
+  ctx.setLineDash([])
+}
+
+// Lighter ring shown while the pointer is over a location
+export const drawLocationHover = (ctx: MapContext, location: MapLocation, hasIcon: boolean) => {
+  ctx.beginPath()
+  ctx.arc(location.x, location.y, (hasIcon ? ICON_SIZE / 2 : MARKER_RADIUS) + 2, 0, 2 * Math.PI)
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)'
+  ctx.lineWidth = 2
+  ctx.stroke()
+}
+
+// Area covered by a location's custom icon or default marker, excluding its label
+export const getMarkerBounds = (location: MapLocation, hasIcon: boolean): Rect => {
+  const half = hasIcon ? ICON_SIZE / 2 : MARKER_RADIUS
+  return { x: location.x - half, y: location.y - half, width: half * 2, height: half * 2 }
+}
+
+// Hit test against the shape actually drawn: a square icon or a round marker
+export const isPointOnMarker = (point: Point, location: MapLocation, hasIcon: boolean) => {
+  if (hasIcon) {
+    return Math.abs(point.x - location.x) <= ICON_SIZE / 2 && Math.abs(point.y - location.y) <= ICON_SIZE / 2
+  }
+  return (point.x - location.x) ** 2 + (point.y - location.y) ** 2 <= MARKER_RADIUS ** 2
+}
+
+export const getLabelBounds = (ctx: MapContext, location: MapLocation): Rect => {
+  ctx.font = '11px Inter'
+  const textWidth = ctx.measureText(location.name).width
+  return { x: location.x - textWidth/2 - 4, y: location.y + LABEL_OFFSET - 2, width: textWidth + 8, height: 16 }
+}
+
+// Draw location name with background (for both custom and default icons)
+export const drawLocationLabel = (ctx: MapContext, location: MapLocation) => {
+  const background = getLabelBounds(ctx, location)
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'top'
+
+  // Text background
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.7)'
+  ctx.fillRect(background.x, background.y, background.width, background.height)
+
+  // Text
+  ctx.fillStyle = 'white'
+  ctx.fillText(location.name, location.x, location.y + LABEL_OFFSET)
+}
+
+export interface MapScene {
+  settings: MapSettings
+  locations: MapLocation[]
+  terrain: CanvasImageSource | null
+  // Loaded custom icons keyed by location id
+  icons: Map<string, CanvasImageSource>
+  showGrid: boolean
+  showLabels: boolean
+  showHidden: boolean
+}
+
+export const drawLocations = (ctx: MapContext, scene: Pick<MapScene, 'locations' | 'icons' | 'showLabels' | 'showHidden'>) => {
+  scene.locations.forEach(location => {
+    if (!location.visible && !scene.showHidden) return
+    drawLocationMarker(ctx, location, scene.icons.get(location.id) || null, false)
+    if (scene.showLabels) drawLocationLabel(ctx, location)
+  })
+}
+
+// Paint a complete map in map coordinates; callers set up any scaling beforehand
+export const paintMap = (ctx: MapContext, scene: MapScene) => {
+  drawTerrain(ctx, scene.settings, scene.terrain)
+
+  if (scene.showGrid) {
+    drawGrid(ctx, scene.settings, !!scene.terrain)
+  }
+
+  drawLocations(ctx, scene)
+}
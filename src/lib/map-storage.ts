@@ -0,0 +1,150 @@
+import { blink } from '../blink/client'
+import { toPlainLocation } from './map-file'
+import { randomSeed, seedFromString } from './procedural-terrain'
+import {
+  defaultLocationTypeDistribution,
+  defaultMapSettings,
+  type MapDocument,
+  type MapLocation,
+  type TerrainHistoryEntry
+} from '../types/map'
+
+// Row shape of the `maps` table. Nested structures are stored as JSON text.
+interface MapRecord {
+  id: string
+  userId: string
+  name: string
+  description: string
+  settings: string
+  locations: string
+  terrainImageUrl: string | null
+  terrainHistory: string | null
+  locationTypeDistribution: string
+  thumbnail: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type MapSummary = Pick<MapDocument, 'id' | 'name' | 'description' | 'thumbnail' | 'createdAt' | 'updatedAt'> & {
+  locationCount: number
+}
+
+export type MapChanges = Partial<Omit<MapDocument, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>
+
+const maps = () => blink.db.table<MapRecord>('maps')
+
+const parseJson = <T>(value: string | null | undefined, fallback: T): T => {
+  if (!value) return fallback
+  try {
+    return JSON.parse(value) as T
+  } catch {
+    return fallback
+  }
+}
+
+const serializeLocations = (locations: MapLocation[]) => JSON.stringify(locations.map(toPlainLocation))
+
+const fromRecord = (record: MapRecord): MapDocument => ({
+  id: record.id,
+  userId: record.userId,
+  name: record.name,
+  description: record.description || '',
+  // Maps saved before terrain seeds existed get a stable one derived from their id
+  settings: { ...defaultMapSettings, seed: seedFromString(record.id), ...parseJson(record.settings, {}) },
+  locations: parseJson<MapLocation[]>(record.locations, []),
+  terrainImageUrl: record.terrainImageUrl || null,
+  terrainHistory: parseJson<TerrainHistoryEntry[]>(record.terrainHistory, []),
+  locationTypeDistribution: { ...defaultLocationTypeDistribution, ...parseJson(record.locationTypeDistribution, {}) },
+  thumbnail: record.thumbnail || null,
+  createdAt: record.createdAt,
+  updatedAt: record.updatedAt
+})
+
+const toRecordChanges = (changes: MapChanges): Partial<MapRecord> => {
+  const record: Partial<MapRecord> = {}
+  if (changes.name !== undefined) record.name = changes.name
+  if (changes.description !== undefined) record.description = changes.description
+  if (changes.settings !== undefined) record.settings = JSON.stringify(changes.settings)
+  if (changes.locations !== undefined) record.locations = serializeLocations(changes.locations)
+  if (changes.terrainImageUrl !== undefined) record.terrainImageUrl = changes.terrainImageUrl
+  if (changes.terrainHistory !== undefined) record.terrainHistory = JSON.stringify(changes.terrainHistory)
+  if (changes.locationTypeDistribution !== undefined) {
+    record.locationTypeDistribution = JSON.stringify(changes.locationTypeDistribution)
+  }
+  if (changes.thumbnail !== undefined) record.thumbnail = changes.thumbnail
+  return record
+}
+
+export const listMaps = async (userId: string): Promise<MapSummary[]> => {
+  const records = await maps().list({
+    where: { userId },
+    orderBy: { updatedAt: 'desc' }
+  })
+
+  return records.map(record => {
+    const map = fromRecord(record)
+    return {
+      id: map.id,
+      name: map.name,
+      description: map.description,
+      thumbnail: map.thumbnail,
+      createdAt: map.createdAt,
+      updatedAt: map.updatedAt,
+      locationCount: map.locations.length
+    }
+  })
+}
+
+export const loadMap = async (id: string): Promise<MapDocument | null> => {
+  const record = await maps().get(id)
+  return record ? fromRecord(record) : null
+}
+
+export const createMap = async (userId: string, changes: MapChanges = {}): Promise<MapDocument> => {
+  const now = new Date().toISOString()
+  const record = await maps().create({
+    id: `map-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    userId,
+    ...toRecordChanges({
+      name: 'Untitled Map',
+      description: '',
+      settings: { ...defaultMapSettings, seed: randomSeed() },
+      locations: [],
+      terrainImageUrl: null,
+      terrainHistory: [],
+      locationTypeDistribution: defaultLocationTypeDistribution,
+      thumbnail: null,
+      ...changes
+    }),
+    createdAt: now,
+    updatedAt: now
+  })
+  return fromRecord(record)
+}
+
+export const saveMap = async (id: string, changes: MapChanges): Promise<void> => {
+  await maps().update(id, {
+    ...toRecordChanges(changes),
+    updatedAt: new Date().toISOString()
+  })
+}
+
+export const renameMap = (id: string, name: string) => saveMap(id, { name })
+
+export const duplicateMap = async (userId: string, id: string): Promise<MapDocument> => {
+  const source = await loadMap(id)
+  if (!source) throw new Error('Map not found')
+
+  return createMap(userId, {
+    name: `${source.name} (copy)`,
+    description: source.description,
+    settings: source.settings,
+    locations: source.locations,
+    terrainImageUrl: source.terrainImageUrl,
+    terrainHistory: source.terrainHistory,
+    locationTypeDistribution: source.locationTypeDistribution,
+    thumbnail: source.thumbnail
+  })
+}
+
+export const deleteMap = (id: string) => maps().delete(id)
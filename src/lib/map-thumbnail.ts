@@ -0,0 +1,56 @@
+import { locationColors } from './map-constants'
+import { getProceduralTerrain } from './procedural-terrain'
+import type { MapLocation, MapSettings } from '../types/map'
+
+const THUMBNAIL_WIDTH = 320
+
+// Downscaled overview of the map: terrain (or biome color) with a dot per visible location.
+// Shared by thumbnails and the minimap.
+export const paintMapOverview = (
+  ctx: CanvasRenderingContext2D,
+  settings: MapSettings,
+  locations: MapLocation[],
+  terrainImage: CanvasImageSource | null,
+  scale: number
+) => {
+  const width = settings.width * scale
+  const height = settings.height * scale
+
+  ctx.drawImage(terrainImage ?? getProceduralTerrain(settings), 0, 0, width, height)
+
+  locations.forEach(location => {
+    if (!location.visible) return
+    ctx.beginPath()
+    ctx.arc(location.x * scale, location.y * scale, 3, 0, 2 * Math.PI)
+    ctx.fillStyle = locationColors[location.type]
+    ctx.fill()
+    ctx.strokeStyle = 'white'
+    ctx.lineWidth = 1
+    ctx.stroke()
+  })
+}
+
+// Render a small JPEG preview of the whole map for the "My Maps" list
+export const renderMapThumbnail = (
+  settings: MapSettings,
+  locations: MapLocation[],
+  terrainImage: HTMLImageElement | null
+): string | null => {
+  const scale = THUMBNAIL_WIDTH / settings.width
+  const canvas = document.createElement('canvas')
+  canvas.width = THUMBNAIL_WIDTH
+  canvas.height = Math.max(1, Math.round(settings.height * scale))
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) return null
+
+  paintMapOverview(ctx, settings, locations, terrainImage, scale)
+
+  try {
+    return canvas.toDataURL('image/jpeg', 0.7)
+  } catch (error) {
+    // A terrain image served without CORS headers taints the canvas
+    console.error('Error rendering map thumbnail:', error)
+    return null
+  }
+}
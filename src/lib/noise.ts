@@ -0,0 +1,91 @@
+// Seeded randomness and gradient noise shared by the terrain generators
+
+export type Noise2D = (x: number, y: number) => number
+
+// mulberry32: small, fast and good enough for terrain
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// 2D gradient (Perlin) noise in roughly [-1, 1], with a permutation table from the seed
+export const createNoise = (seed: number): Noise2D => {
+  const random = createRandom(seed)
+  const permutation = Array.from({ length: 256 }, (_, index) => index)
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[permutation[i], permutation[j]] = [permutation[j], permutation[i]]
+  }
+  const perm = new Uint8Array(512)
+  for (let i = 0; i < 512; i++) perm[i] = permutation[i & 255]
+
+  const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10)
+  const gradient = (hash: number, x: number, y: number) => {
+    switch (hash & 7) {
+      case 0: return x + y
+      case 1: return x - y
+      case 2: return -x + y
+      case 3: return -x - y
+      case 4: return x
+      case 5: return -x
+      case 6: return y
+      default: return -y
+    }
+  }
+
+  return (x: number, y: number) => {
+    const xi = Math.floor(x) & 255
+    const yi = Math.floor(y) & 255
+    const xf = x - Math.floor(x)
+    const yf = y - Math.floor(y)
+    const u = fade(xf)
+    const v = fade(yf)
+
+    const aa = perm[perm[xi] + yi]
+    const ab = perm[perm[xi] + yi + 1]
+    const ba = perm[perm[xi + 1] + yi]
+    const bb = perm[perm[xi + 1] + yi + 1]
+
+    const top = gradient(aa, xf, yf) + u * (gradient(ba, xf - 1, yf) - gradient(aa, xf, yf))
+    const bottom = gradient(ab, xf, yf - 1) + u * (gradient(bb, xf - 1, yf - 1) - gradient(ab, xf, yf - 1))
+    return top + v * (bottom - top)
+  }
+}
+
+// Fractal sum of octaves, normalized to [0, 1]
+export const fbm = (noise: Noise2D, x: number, y: number, octaves: number) => {
+  let total = 0
+  let amplitude = 1
+  let frequency = 1
+  let max = 0
+  for (let octave = 0; octave < octaves; octave++) {
+    total += noise(x * frequency, y * frequency) * amplitude
+    max += amplitude
+    amplitude *= 0.5
+    frequency *= 2
+  }
+  return Math.min(1, Math.max(0, total / max * 0.75 + 0.5))
+}
+
+// Ridged fractal noise in [0, 1]: sharp crests where the noise crosses zero, for
+// mountain ranges
+export const ridged = (noise: Noise2D, x: number, y: number, octaves: number) => {
+  let total = 0
+  let amplitude = 1
+  let frequency = 1
+  let max = 0
+  for (let octave = 0; octave < octaves; octave++) {
+    const ridge = 1 - Math.abs(noise(x * frequency, y * frequency))
+    total += ridge * ridge * amplitude
+    max += amplitude
+    amplitude *= 0.5
+    frequency *= 2
+  }
+  return total / max
+}
@@ -0,0 +1,30 @@
+// Per-user view preferences. They describe how this browser shows the editor rather than
+// the map itself, so they live in localStorage instead of the maps table.
+export interface UserPreferences {
+  showMinimap: boolean
+}
+
+export const defaultPreferences: UserPreferences = {
+  showMinimap: true
+}
+
+const storageKey = (userId: string) => `map-maker:preferences:${userId}`
+
+export const loadPreferences = (userId: string): UserPreferences => {
+  try {
+    const stored = localStorage.getItem(storageKey(userId))
+    return stored ? { ...defaultPreferences, ...JSON.parse(stored) } : defaultPreferences
+  } catch (error) {
+    console.error('Error loading preferences:', error)
+    return defaultPreferences
+  }
+}
+
+export const savePreferences = (userId: string, preferences: UserPreferences) => {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(preferences))
+  } catch (error) {
+    // Storage can be full or disabled; the preference still applies for this session
+    console.error('Error saving preferences:', error)
+  }
+}
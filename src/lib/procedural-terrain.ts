@@ -0,0 +1,61 @@
+import { paintTerrain } from './terrain-generator'
+import type { MapSettings } from '../types/map'
+
+// Preview of the terrain generator, shown while the map has no terrain image. The same
+// settings always produce the same picture.
+
+type TerrainCanvas = HTMLCanvasElement | OffscreenCanvas
+
+// Terrain is smooth, so it is generated at a reduced size and scaled up when drawn
+const MAX_RESOLUTION = 512
+const CACHE_SIZE = 8
+
+export const randomSeed = () => Math.floor(Math.random() * 2 ** 31)
+
+// Stable seed for maps saved before seeds existed
+export const seedFromString = (text: string) => {
+  let hash = 2166136261
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 16777619)
+  }
+  return (hash >>> 0) % 2 ** 31
+}
+
+const createCanvas = (width: number, height: number): TerrainCanvas =>
+  typeof document !== 'undefined'
+    ? Object.assign(document.createElement('canvas'), { width, height })
+    : new OffscreenCanvas(width, height)
+
+const cache = new Map<string, TerrainCanvas>()
+
+// Render (or reuse) the procedural terrain for these settings
+export const getProceduralTerrain = (settings: MapSettings): TerrainCanvas => {
+  const key = [
+    settings.seed,
+    settings.width,
+    settings.height,
+    settings.biome,
+    settings.terrainType,
+    settings.seaLevel,
+    settings.mountainFrequency,
+    settings.landShape,
+    settings.erosionPasses
+  ].join(':')
+  const cached = cache.get(key)
+  if (cached) return cached
+
+  const scale = Math.min(1, MAX_RESOLUTION / Math.max(settings.width, settings.height))
+  const width = Math.max(1, Math.round(settings.width * scale))
+  const height = Math.max(1, Math.round(settings.height * scale))
+  const canvas = createCanvas(width, height)
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null
+  if (!ctx) return canvas
+
+  const image = ctx.createImageData(width, height)
+  paintTerrain(image, settings)
+  ctx.putImageData(image, 0, 0)
+
+  if (cache.size >= CACHE_SIZE) cache.delete(cache.keys().next().value!)
+  cache.set(key, canvas)
+  return canvas
+}
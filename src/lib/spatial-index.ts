@@ -0,0 +1,121 @@
+import type { Point } from './grid'
+
+export interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface SpatialIndex<T> {
+  // Items whose bounds intersect the rect, in insertion order
+  search: (rect: Rect) => T[]
+  // Items whose bounds contain the point, in insertion order
+  searchPoint: (point: Point) => T[]
+}
+
+interface Entry<T> {
+  item: T
+  bounds: Rect
+  order: number
+}
+
+interface QuadNode<T> {
+  bounds: Rect
+  entries: Entry<T>[]
+  children: QuadNode<T>[] | null
+}
+
+const NODE_CAPACITY = 16
+const MAX_DEPTH = 10
+
+export const intersects = (a: Rect, b: Rect) =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width &&
+  a.y <= b.y + b.height && b.y <= a.y + a.height
+
+export const containsRect = (outer: Rect, inner: Rect) =>
+  inner.x >= outer.x && inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height
+
+export const intersectRects = (a: Rect, b: Rect): Rect | null => {
+  const x = Math.max(a.x, b.x)
+  const y = Math.max(a.y, b.y)
+  const width = Math.min(a.x + a.width, b.x + b.width) - x
+  const height = Math.min(a.y + a.height, b.y + b.height) - y
+  return width > 0 && height > 0 ? { x, y, width, height } : null
+}
+
+export const unionRects = (a: Rect, b: Rect): Rect => {
+  const x = Math.min(a.x, b.x)
+  const y = Math.min(a.y, b.y)
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y
+  }
+}
+
+const createNode = <T>(bounds: Rect): QuadNode<T> => ({ bounds, entries: [], children: null })
+
+const split = <T>(node: QuadNode<T>) => {
+  const { x, y } = node.bounds
+  const width = node.bounds.width / 2
+  const height = node.bounds.height / 2
+  node.children = [
+    createNode({ x, y, width, height }),
+    createNode({ x: x + width, y, width, height }),
+    createNode({ x, y: y + height, width, height }),
+    createNode({ x: x + width, y: y + height, width, height })
+  ]
+}
+
+// Entries straddling a split line stay in the parent node
+const insert = <T>(node: QuadNode<T>, entry: Entry<T>, depth: number) => {
+  if (node.children) {
+    const child = node.children.find(child => containsRect(child.bounds, entry.bounds))
+    if (child) {
+      insert(child, entry, depth + 1)
+      return
+    }
+  }
+
+  node.entries.push(entry)
+  if (node.children || node.entries.length <= NODE_CAPACITY || depth >= MAX_DEPTH) return
+
+  split(node)
+  const entries = node.entries
+  node.entries = []
+  entries.forEach(existing => insert(node, existing, depth))
+}
+
+const collect = <T>(node: QuadNode<T>, rect: Rect, found: Entry<T>[]) => {
+  if (!intersects(node.bounds, rect)) return
+  node.entries.forEach(entry => {
+    if (intersects(entry.bounds, rect)) found.push(entry)
+  })
+  node.children?.forEach(child => collect(child, rect, found))
+}
+
+// A region quadtree over item bounding boxes. Items outside the given bounds are kept
+// in the root, so a slightly oversized label or icon near the edge is still found.
+export const createSpatialIndex = <T>(
+  bounds: Rect,
+  items: T[],
+  getBounds: (item: T) => Rect
+): SpatialIndex<T> => {
+  const root = createNode<T>(bounds)
+  items.forEach((item, order) => insert(root, { item, bounds: getBounds(item), order }, 0))
+
+  const search = (rect: Rect) => {
+    const found: Entry<T>[] = []
+    collect(root, rect, found)
+    return found.sort((a, b) => a.order - b.order).map(entry => entry.item)
+  }
+
+  return {
+    search,
+    searchPoint: point => search({ x: point.x, y: point.y, width: 0, height: 0 })
+  }
+}
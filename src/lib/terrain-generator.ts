@@ -0,0 +1,365 @@
+import { createNoise, fbm, ridged } from './noise'
+import type { MapSettings } from '../types/map'
+
+// Offline terrain: seeded elevation and moisture fields, worn down by erosion, classified
+// into biomes and colored for the map's terrain type. It runs at reduced size for the live
+// preview and at exactly the map's size when terrain is generated.
+
+export type TerrainClass =
+  | 'deep-water'
+  | 'shallow-water'
+  | 'beach'
+  | 'desert'
+  | 'shrubland'
+  | 'grassland'
+  | 'forest'
+  | 'rainforest'
+  | 'rock'
+  | 'snow'
+  | 'district'
+  | 'park'
+  | 'void'
+  | 'nebula'
+  | 'asteroid'
+
+// Elevation is 0 at the shoreline, rising to 1 at the highest peak and falling to -1 at
+// the deepest water. Moisture runs from roughly 0 (arid) to 1 (wet).
+export interface TerrainFields {
+  width: number
+  height: number
+  elevation: Float32Array
+  moisture: Float32Array
+}
+
+export interface GenerateTerrainRequest {
+  settings: MapSettings
+}
+
+export type GenerateTerrainResponse = { blob: Blob; error?: undefined } | { error: string; blob?: undefined }
+
+type Rgb = [number, number, number]
+
+// How each map biome shifts the generator settings
+interface Climate {
+  // Added to the sea level setting
+  water: number
+  // Added to the moisture field
+  moisture: number
+  // Multiplies the height of mountain ranges
+  mountains: number
+  // Elevation where bare rock starts; snow caps start 0.2 higher
+  rockLine: number
+}
+
+const climates: Record<MapSettings['biome'], Climate> = {
+  forest: { water: 0, moisture: 0.15, mountains: 1, rockLine: 0.6 },
+  desert: { water: -0.25, moisture: -0.3, mountains: 0.8, rockLine: 0.6 },
+  mountain: { water: -0.1, moisture: 0, mountains: 1.8, rockLine: 0.35 },
+  ocean: { water: 0.35, moisture: 0.1, mountains: 0.6, rockLine: 0.6 },
+  urban: { water: -0.1, moisture: 0, mountains: 0.5, rockLine: 0.6 },
+  space: { water: 0, moisture: 0, mountains: 1, rockLine: 0.6 }
+}
+
+// Width in map pixels of the largest landforms and of individual mountain ridges
+const FEATURE_SIZE = 360
+const RIDGE_SIZE = 200
+const ELEVATION_OCTAVES = 5
+const RIDGE_OCTAVES = 4
+const MOISTURE_OCTAVES = 3
+// How far island elevation drops from the center of the map to its edges
+const ISLAND_FALLOFF = 0.8
+// Steepest slope that survives erosion, in elevation per map pixel
+const TALUS = 0.002
+const HISTOGRAM_BINS = 1024
+// Hillshade strength per unit of elevation change per map pixel
+const RELIEF = 30
+
+const palette: Record<TerrainClass, Rgb> = {
+  'deep-water': [30, 58, 138],
+  'shallow-water': [59, 130, 246],
+  beach: [231, 217, 168],
+  desert: [222, 184, 135],
+  shrubland: [181, 170, 110],
+  grassland: [134, 179, 84],
+  forest: [46, 125, 50],
+  rainforest: [20, 83, 45],
+  rock: [120, 113, 108],
+  snow: [241, 245, 249],
+  district: [148, 150, 158],
+  park: [101, 163, 13],
+  void: [11, 16, 32],
+  nebula: [139, 92, 246],
+  asteroid: [120, 113, 108]
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const smoothstep = (edge0: number, edge1: number, value: number) => {
+  const t = clamp((value - edge0) / (edge1 - edge0), 0, 1)
+  return t * t * (3 - 2 * t)
+}
+
+// Thermal erosion: wherever a cell stands more than the talus slope above its neighbours,
+// part of the excess slides down, shared between the lower neighbours by how far each
+// one drops. Moving a quarter per pass keeps cells fed from several sides from overshooting.
+const erode = (elevation: Float32Array, width: number, height: number, passes: number, talus: number) => {
+  const change = new Float32Array(elevation.length)
+  const neighbours = [0, 0, 0, 0]
+  const drops = [0, 0, 0, 0]
+  for (let pass = 0; pass < passes; pass++) {
+    change.fill(0)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const index = y * width + x
+        neighbours[0] = x > 0 ? index - 1 : index
+        neighbours[1] = x < width - 1 ? index + 1 : index
+        neighbours[2] = y > 0 ? index - width : index
+        neighbours[3] = y < height - 1 ? index + width : index
+
+        let total = 0
+        let steepest = 0
+        for (let n = 0; n < 4; n++) {
+          const drop = elevation[index] - elevation[neighbours[n]] - talus
+          drops[n] = drop > 0 ? drop : 0
+          total += drops[n]
+          if (drop > steepest) steepest = drop
+        }
+        if (total === 0) continue
+
+        const amount = steepest / 4
+        change[index] -= amount
+        for (let n = 0; n < 4; n++) {
+          if (drops[n] > 0) change[neighbours[n]] += amount * drops[n] / total
+        }
+      }
+    }
+    for (let i = 0; i < elevation.length; i++) elevation[i] += change[i]
+  }
+}
+
+// Elevation below which `share` of the cells lie
+const getQuantile = (values: Float32Array, min: number, max: number, share: number) => {
+  const bins = new Uint32Array(HISTOGRAM_BINS)
+  const step = (max - min) / HISTOGRAM_BINS || 1
+  for (let i = 0; i < values.length; i++) {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((values[i] - min) / step))]++
+  }
+
+  const target = share * values.length
+  let count = 0
+  for (let bin = 0; bin < HISTOGRAM_BINS; bin++) {
+    count += bins[bin]
+    if (count >= target) return min + (bin + 1) * step
+  }
+  return max
+}
+
+// Sample the fields at `width` x `height`. Noise is sampled in map space, so any size
+// shows the same terrain.
+export const generateTerrainFields = (settings: MapSettings, width: number, height: number): TerrainFields => {
+  const climate = climates[settings.biome]
+  // Cells per map pixel
+  const scale = width / settings.width
+  const elevationNoise = createNoise(settings.seed)
+  const moistureNoise = createNoise(settings.seed + 1)
+  const ridgeNoise = createNoise(settings.seed + 2)
+  const rangeNoise = createNoise(settings.seed + 3)
+  // Ranges rise where the range field clears this, so higher frequencies raise more land
+  const rangeThreshold = 1 - settings.mountainFrequency
+
+  const elevation = new Float32Array(width * height)
+  const moisture = new Float32Array(width * height)
+  for (let y = 0; y < height; y++) {
+    const mapY = (y + 0.5) / scale
+    for (let x = 0; x < width; x++) {
+      const mapX = (x + 0.5) / scale
+      const index = y * width + x
+
+      let e = fbm(elevationNoise, mapX / FEATURE_SIZE, mapY / FEATURE_SIZE, ELEVATION_OCTAVES)
+      const range = fbm(rangeNoise, mapX / FEATURE_SIZE / 1.5, mapY / FEATURE_SIZE / 1.5, 2)
+      const mountains = smoothstep(rangeThreshold - 0.1, rangeThreshold + 0.1, range)
+      if (mountains > 0) {
+        e += mountains * ridged(ridgeNoise, mapX / RIDGE_SIZE, mapY / RIDGE_SIZE, RIDGE_OCTAVES) * 0.5 * climate.mountains
+      }
+      if (settings.landShape === 'island') {
+        const dx = mapX / settings.width * 2 - 1
+        const dy = mapY / settings.height * 2 - 1
+        e -= ISLAND_FALLOFF * (dx * dx + dy * dy)
+      }
+
+      elevation[index] = e
+      moisture[index] = fbm(moistureNoise, mapX / FEATURE_SIZE, mapY / FEATURE_SIZE, MOISTURE_OCTAVES) + climate.moisture
+    }
+  }
+
+  // Each pass moves material one cell, so smaller fields need fewer passes to wear the
+  // same distance of map
+  const passes = Math.round(settings.erosionPasses * Math.min(1, scale))
+  erode(elevation, width, height, passes, TALUS / scale)
+
+  let min = Infinity
+  let max = -Infinity
+  for (let i = 0; i < elevation.length; i++) {
+    min = Math.min(min, elevation[i])
+    max = Math.max(max, elevation[i])
+  }
+
+  // Sea level is a share of the map rather than a height, so it means the same for
+  // islands and continents
+  const waterShare = settings.biome === 'space' ? 0 : clamp(settings.seaLevel + climate.water, 0, 0.95)
+  const shoreline = waterShare > 0 ? getQuantile(elevation, min, max, waterShare) : min
+  for (let i = 0; i < elevation.length; i++) {
+    const e = elevation[i]
+    const normalized = e >= shoreline ? (e - shoreline) / (max - shoreline || 1) : (e - shoreline) / (shoreline - min || 1)
+    elevation[i] = normalized
+    // Air dries out with altitude
+    moisture[i] -= Math.max(0, normalized) * 0.25
+  }
+
+  return { width, height, elevation, moisture }
+}
+
+export const classifyTerrain = (biome: MapSettings['biome'], elevation: number, moisture: number): TerrainClass => {
+  if (biome === 'space') {
+    if (elevation > 0.55) return 'asteroid'
+    return moisture > 0.5 ? 'nebula' : 'void'
+  }
+
+  if (elevation < -0.35) return 'deep-water'
+  if (elevation < 0) return 'shallow-water'
+  if (biome === 'urban') return moisture > 0.6 ? 'park' : 'district'
+  if (elevation < 0.03) return 'beach'
+  const { rockLine } = climates[biome]
+  if (elevation > rockLine + 0.2) return biome === 'desert' ? 'rock' : 'snow'
+  if (elevation > rockLine) return 'rock'
+  if (moisture < 0.3) return 'desert'
+  if (moisture < 0.45) return 'shrubland'
+  if (moisture < 0.6) return 'grassland'
+  if (moisture < 0.75) return 'forest'
+  return 'rainforest'
+}
+
+const mix = (a: Rgb, b: Rgb, t: number): Rgb => {
+  const k = clamp(t, 0, 1)
+  return [a[0] + (b[0] - a[0]) * k, a[1] + (b[1] - a[1]) * k, a[2] + (b[2] - a[2]) * k]
+}
+
+const shade = (color: Rgb, amount: number): Rgb =>
+  amount >= 0 ? mix(color, [255, 255, 255], amount) : mix(color, [0, 0, 0], -amount)
+
+const saturate = (color: Rgb, amount: number): Rgb => {
+  const luminance = 0.299 * color[0] + 0.587 * color[1] + 0.114 * color[2]
+  return [
+    luminance + (color[0] - luminance) * amount,
+    luminance + (color[1] - luminance) * amount,
+    luminance + (color[2] - luminance) * amount
+  ]
+}
+
+const getColor = (terrainClass: TerrainClass, elevation: number, moisture: number): Rgb => {
+  switch (terrainClass) {
+    // Water and space shade smoothly across their classes, so depth has no banding
+    case 'deep-water':
+    case 'shallow-water':
+      return mix(palette['shallow-water'], palette['deep-water'], -elevation)
+    case 'void':
+    case 'nebula':
+      return mix(palette.void, palette.nebula, (moisture - 0.4) * 2)
+    default:
+      // Land darkens slightly with height
+      return shade(palette[terrainClass], 0.1 - elevation * 0.3)
+  }
+}
+
+// Color grading for the terrain type
+const gradeColor = (color: Rgb, terrainType: MapSettings['terrainType']): Rgb => {
+  switch (terrainType) {
+    case 'fantasy':
+      return saturate(color, 1.2)
+    case 'modern':
+      return saturate(color, 0.8)
+    case 'sci-fi':
+      return mix(shade(color, -0.15), [34, 211, 238], 0.12)
+    case 'medieval': {
+      // Sepia, like ink on parchment
+      const luminance = 0.299 * color[0] + 0.587 * color[1] + 0.114 * color[2]
+      return mix(color, [luminance * 1.07 + 20, luminance * 0.95 + 10, luminance * 0.75], 0.45)
+    }
+  }
+}
+
+// Paint the terrain for `settings` into an image of any size
+export const paintTerrain = (image: ImageData, settings: MapSettings) => {
+  const { width, height, data } = image
+  const { elevation, moisture } = generateTerrainFields(settings, width, height)
+  const cellSize = settings.width / width
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x
+      const e = elevation[index]
+      const terrainClass = classifyTerrain(settings.biome, e, moisture[index])
+      let color = getColor(terrainClass, e, moisture[index])
+
+      // Light from the top left so hills read as relief
+      if (e >= 0 && terrainClass !== 'void' && terrainClass !== 'nebula') {
+        const left = elevation[index - (x > 0 ? 1 : 0)]
+        const up = elevation[index - (y > 0 ? width : 0)]
+        color = shade(color, clamp((e - left + e - up) / cellSize * RELIEF, -0.25, 0.25))
+      }
+      color = gradeColor(color, settings.terrainType)
+
+      data[index * 4] = color[0]
+      data[index * 4 + 1] = color[1]
+      data[index * 4 + 2] = color[2]
+      data[index * 4 + 3] = 255
+    }
+  }
+}
+
+// Saved with the map, so keep it compact
+export const TERRAIN_IMAGE_TYPE = 'image/jpeg'
+export const TERRAIN_IMAGE_QUALITY = 0.9
+
+export const encodeTerrainCanvas = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => canvas.toBlob(
+    blob => blob ? resolve(blob) : reject(new Error('Failed to encode terrain')),
+    TERRAIN_IMAGE_TYPE,
+    TERRAIN_IMAGE_QUALITY
+  ))
+
+const generateInWorker = (request: GenerateTerrainRequest) =>
+  new Promise<Blob>((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/terrain.worker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<GenerateTerrainResponse>) => {
+      worker.terminate()
+      if (event.data.blob) resolve(event.data.blob)
+      else reject(new Error(event.data.error))
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message || 'Terrain worker failed'))
+    }
+    worker.postMessage(request)
+  })
+
+// Fallback for browsers without OffscreenCanvas
+const generateOnMainThread = async ({ settings }: GenerateTerrainRequest) => {
+  const canvas = document.createElement('canvas')
+  canvas.width = settings.width
+  canvas.height = settings.height
+
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Canvas is not supported')
+
+  const image = ctx.createImageData(settings.width, settings.height)
+  paintTerrain(image, settings)
+  ctx.putImageData(image, 0, 0)
+  return encodeTerrainCanvas(canvas)
+}
+
+// Generate a terrain image at exactly the map's size
+export const generateTerrainImage = (settings: MapSettings): Promise<Blob> =>
+  typeof OffscreenCanvas !== 'undefined'
+    ? generateInWorker({ settings })
+    : generateOnMainThread({ settings })
@@ -0,0 +1,55 @@
+import type { TerrainHistoryEntry } from '../types/map'
+
+// Terrain images a map has used, so any of them can be restored. Entries are newest first.
+
+// Entries kept besides favorites; older ones are dropped first
+const MAX_ENTRIES = 12
+
+// Only stored images are kept. Inline images, left when an upload failed offline, would
+// bloat the map record.
+const isStoredImage = (url: string) => !url.startsWith('data:')
+
+const prune = (entries: TerrainHistoryEntry[]) => {
+  let kept = 0
+  return entries.filter(entry => entry.favorite || ++kept <= MAX_ENTRIES)
+}
+
+export const addTerrainHistoryEntry = (
+  entries: TerrainHistoryEntry[],
+  url: string,
+  label: string,
+  favorite = false
+): TerrainHistoryEntry[] => {
+  if (!isStoredImage(url)) return entries
+
+  const existing = entries.find(entry => entry.url === url)
+  if (existing) {
+    return favorite && !existing.favorite
+      ? entries.map(entry => entry === existing ? { ...entry, favorite } : entry)
+      : entries
+  }
+
+  return prune([{
+    id: `terrain-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    url,
+    label,
+    favorite,
+    createdAt: new Date().toISOString()
+  }, ...entries])
+}
+
+// Favoriting an image that is not in the history yet, such as a generated candidate, adds it
+export const setTerrainFavorite = (
+  entries: TerrainHistoryEntry[],
+  url: string,
+  label: string,
+  favorite: boolean
+): TerrainHistoryEntry[] => {
+  if (!entries.some(entry => entry.url === url)) {
+    return favorite ? addTerrainHistoryEntry(entries, url, label, true) : entries
+  }
+  return prune(entries.map(entry => entry.url === url ? { ...entry, favorite } : entry))
+}
+
+export const removeTerrainHistoryEntry = (entries: TerrainHistoryEntry[], id: string) =>
+  entries.filter(entry => entry.id !== id)
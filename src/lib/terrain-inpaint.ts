@@ -0,0 +1,129 @@
+import { blink } from '../blink/client'
+import { loadImage } from './image-utils'
+import { intersectRects, type Rect } from './spatial-index'
+import { encodeTerrainCanvas } from './terrain-generator'
+import { createTerrainCanvas, getClosestImageSize, uploadTerrainImage } from './terrain-tiles'
+import type { Point } from './grid'
+import type { MapSettings } from '../types/map'
+
+// Repaint part of the terrain. The model cannot take a mask, so the selection's bounding
+// box plus a margin of surrounding terrain is sent for editing, and the result is blended
+// back inside the selection only.
+
+export type RegionTool = 'rectangle' | 'lasso'
+
+export interface RepaintRegionOptions {
+  settings: MapSettings
+  terrain: CanvasImageSource
+  region: Point[]
+  prompt: string
+  // Storage folder for the crop sent to the model
+  folder: string
+}
+
+// Context around the selection, as a share of its size
+const MARGIN = 0.25
+const MIN_MARGIN = 48
+// Blur applied to the selection mask, in map pixels
+const FEATHER = 8
+// Selections smaller than this, in square map pixels, are treated as stray clicks
+export const MIN_REGION_AREA = 256
+
+export const getRectangleRegion = (from: Point, to: Point): Point[] => [
+  from,
+  { x: to.x, y: from.y },
+  to,
+  { x: from.x, y: to.y }
+]
+
+export const getRegionBounds = (points: Point[]): Rect => {
+  const xs = points.map(point => point.x)
+  const ys = points.map(point => point.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+// Shoelace formula; works for the self-intersecting outlines a lasso can produce, which
+// only ever makes the area smaller
+export const getRegionArea = (points: Point[]) => {
+  let sum = 0
+  points.forEach((point, index) => {
+    const next = points[(index + 1) % points.length]
+    sum += point.x * next.y - next.x * point.y
+  })
+  return Math.abs(sum) / 2
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+// Whole-pixel area to send to the model, and the image size to request for it: the
+// selection and its margin, grown to the shape of that size so the result maps back
+// without stretching. Only a map too narrow for that shape leaves it slightly off.
+const getCropRect = (region: Point[], settings: MapSettings) => {
+  const bounds = getRegionBounds(region)
+  const margin = Math.max(MIN_MARGIN, Math.max(bounds.width, bounds.height) * MARGIN)
+  const expanded = intersectRects(
+    { x: bounds.x - margin, y: bounds.y - margin, width: bounds.width + margin * 2, height: bounds.height + margin * 2 },
+    { x: 0, y: 0, width: settings.width, height: settings.height }
+  )
+  if (!expanded) throw new Error('Selection is outside the map')
+
+  const size = getClosestImageSize(expanded.width, expanded.height)
+  const aspect = size.width / size.height
+  let width = Math.min(settings.width, Math.max(expanded.width, expanded.height * aspect))
+  let height = Math.min(settings.height, Math.max(expanded.height, expanded.width / aspect))
+  // Where the map stopped one side growing, trim margin from the other, never the selection
+  if (width / height > aspect) width = Math.max(bounds.width, height * aspect)
+  else height = Math.max(bounds.height, width / aspect)
+
+  // Centered on the selection and moved inside the map, which keeps the selection covered
+  const x = Math.floor(clamp(bounds.x + (bounds.width - width) / 2, 0, settings.width - width))
+  const y = Math.floor(clamp(bounds.y + (bounds.height - height) / 2, 0, settings.height - height))
+  return {
+    crop: {
+      x,
+      y,
+      width: Math.min(Math.round(width), settings.width - x),
+      height: Math.min(Math.round(height), settings.height - y)
+    },
+    size
+  }
+}
+
+// Returns the whole terrain with the region repainted, to preview before it is applied
+export const repaintTerrainRegion = async ({ settings, terrain, region, prompt, folder }: RepaintRegionOptions) => {
+  const { canvas, ctx } = createTerrainCanvas(settings.width, settings.height)
+  ctx.drawImage(terrain, 0, 0, settings.width, settings.height)
+
+  const { crop, size } = getCropRect(region, settings)
+  const { canvas: cropCanvas, ctx: cropCtx } = createTerrainCanvas(crop.width, crop.height)
+  cropCtx.drawImage(canvas, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height)
+  const cropUrl = await uploadTerrainImage(await encodeTerrainCanvas(cropCanvas), folder, 'region')
+
+  const { data } = await blink.ai.modifyImage({
+    images: [cropUrl],
+    prompt: `${prompt} Keep the same top-down view, art style, lighting and scale, and make the terrain at ` +
+      'the edges of the image continue seamlessly into the surrounding map.',
+    size: `${size.width}x${size.height}`,
+    quality: 'high',
+    n: 1
+  })
+  const url = data?.[0]?.url
+  if (!url) throw new Error('No repainted terrain was returned')
+  const result = await loadImage(url)
+
+  // The crop has the shape of the requested size, so the output maps straight back onto it
+  const { canvas: patch, ctx: patchCtx } = createTerrainCanvas(crop.width, crop.height)
+  patchCtx.filter = `blur(${FEATHER}px)`
+  patchCtx.beginPath()
+  region.forEach(({ x, y }, index) => index === 0 ? patchCtx.moveTo(x - crop.x, y - crop.y) : patchCtx.lineTo(x - crop.x, y - crop.y))
+  patchCtx.closePath()
+  patchCtx.fill()
+  patchCtx.filter = 'none'
+  patchCtx.globalCompositeOperation = 'source-in'
+  patchCtx.drawImage(result, 0, 0, crop.width, crop.height)
+
+  ctx.drawImage(patch, crop.x, crop.y)
+  return canvas
+}
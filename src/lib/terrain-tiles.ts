@@ -0,0 +1,267 @@
+import { blink } from '../blink/client'
+import { loadImage } from './image-utils'
+import { encodeTerrainCanvas } from './terrain-generator'
+import type { Size } from './viewport'
+import type { MapSettings } from '../types/map'
+
+// AI terrain for maps of any size and shape. The image model only returns a few fixed
+// sizes, so the map is covered with overlapping tiles of the size closest to its aspect
+// ratio, one image pixel per map pixel, and the tiles are blended into one image.
+
+export interface TerrainTile {
+  column: number
+  row: number
+  // Area of the map the tile covers
+  x: number
+  y: number
+  width: number
+  height: number
+  // Size of the image requested for it
+  imageWidth: number
+  imageHeight: number
+}
+
+export interface TerrainTilePlan {
+  columns: number
+  rows: number
+  tiles: TerrainTile[]
+}
+
+export interface TiledTerrainOptions {
+  prompt: string
+  // Alternative terrains to generate, each covering the whole map
+  count?: number
+  onProgress?: (completed: number, total: number) => void
+}
+
+const IMAGE_SIZES: Size[] = [
+  { width: 1024, height: 1024 },
+  { width: 1536, height: 1024 },
+  { width: 1024, height: 1536 }
+]
+// Map pixels shared by neighbouring tiles, blended across the seam
+const OVERLAP = 128
+// Larger maps scale tiles up rather than request more of them
+const MAX_TILES = 16
+const CONCURRENCY = 3
+// Limits on the tone correction applied to each tile to match its neighbours
+const MIN_GAIN = 0.8
+const MAX_GAIN = 1.25
+
+// Image size the model can produce that is closest in shape to `width` x `height`
+export const getClosestImageSize = (width: number, height: number) => {
+  const aspect = Math.log(width / height)
+  return IMAGE_SIZES.reduce((best, size) =>
+    Math.abs(Math.log(size.width / size.height) - aspect) < Math.abs(Math.log(best.width / best.height) - aspect)
+      ? size
+      : best)
+}
+
+// Tiles needed along one side of the map, and where each starts. Tiles are spread evenly,
+// so neighbours always overlap by at least OVERLAP.
+const getTileOffsets = (length: number, tileLength: number) => {
+  if (length <= tileLength) return [0]
+  const count = Math.ceil((length - OVERLAP) / (tileLength - OVERLAP))
+  return Array.from({ length: count }, (_, index) => Math.round(index * (length - tileLength) / (count - 1)))
+}
+
+export const planTerrainTiles = (settings: MapSettings): TerrainTilePlan => {
+  const image = getClosestImageSize(settings.width, settings.height)
+
+  // Map pixels per image pixel
+  let footprint = 1
+  let xs = getTileOffsets(settings.width, image.width)
+  let ys = getTileOffsets(settings.height, image.height)
+  while (xs.length * ys.length > MAX_TILES) {
+    footprint *= 1.25
+    xs = getTileOffsets(settings.width, Math.round(image.width * footprint))
+    ys = getTileOffsets(settings.height, Math.round(image.height * footprint))
+  }
+
+  // Tiles never extend past the map; images are cropped to fit
+  const width = Math.min(settings.width, Math.round(image.width * footprint))
+  const height = Math.min(settings.height, Math.round(image.height * footprint))
+  const tiles = ys.flatMap((y, row) => xs.map((x, column) => ({
+    column,
+    row,
+    x,
+    y,
+    width,
+    height,
+    imageWidth: image.width,
+    imageHeight: image.height
+  })))
+
+  return { columns: xs.length, rows: ys.length, tiles }
+}
+
+const describePosition = (tile: TerrainTile, plan: TerrainTilePlan) => {
+  const vertical = plan.rows === 1 ? '' : tile.row === 0 ? 'north' : tile.row === plan.rows - 1 ? 'south' : 'central'
+  const horizontal = plan.columns === 1 ? '' : tile.column === 0 ? 'west' : tile.column === plan.columns - 1 ? 'east' : 'central'
+  const position = vertical === horizontal ? vertical : [vertical, horizontal].filter(Boolean).join('-')
+  return position === 'central' ? 'center' : position
+}
+
+const getTilePrompt = (prompt: string, tile: TerrainTile, plan: TerrainTilePlan) => {
+  if (plan.tiles.length === 1) {
+    return `${prompt} Fill the whole image edge to edge, with no border or frame.`
+  }
+  return `${prompt} This image is the ${describePosition(tile, plan)} section of a larger map made of ` +
+    `${plan.columns} by ${plan.rows} sections painted at the same scale, in the same art style and lighting. ` +
+    'Let terrain and roads continue off every edge, with no border, frame or vignette.'
+}
+
+// Stops at the first failure: nothing new is started and the signal aborts calls in
+// flight, since every tile left is a paid generation that can no longer be used
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T, signal: AbortSignal) => Promise<R>) => {
+  const results = new Array<R>(items.length)
+  const controller = new AbortController()
+  let next = 0
+  const work = async () => {
+    while (next < items.length && !controller.signal.aborted) {
+      const index = next++
+      try {
+        results[index] = await fn(items[index], controller.signal)
+      } catch (error) {
+        controller.abort()
+        throw error
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, work))
+  return results
+}
+
+export const createTerrainCanvas = (width: number, height: number) => {
+  const canvas = Object.assign(document.createElement('canvas'), { width, height })
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  if (!ctx) throw new Error('Canvas is not supported')
+  return { canvas, ctx }
+}
+
+// Scale the image to cover the canvas without distorting it, cropping the excess evenly
+const drawCover = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, width: number, height: number) => {
+  const scale = Math.max(width / image.naturalWidth, height / image.naturalHeight)
+  const drawWidth = image.naturalWidth * scale
+  const drawHeight = image.naturalHeight * scale
+  ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight)
+}
+
+type Rect = [x: number, y: number, width: number, height: number]
+
+const sumColors = (ctx: CanvasRenderingContext2D, rects: Rect[]) => {
+  const sum = [0, 0, 0]
+  rects.forEach(rect => {
+    const { data } = ctx.getImageData(...rect)
+    for (let i = 0; i < data.length; i += 4) {
+      sum[0] += data[i]
+      sum[1] += data[i + 1]
+      sum[2] += data[i + 2]
+    }
+  })
+  return sum
+}
+
+// Scale the tile's color channels so its overlap matches what is already painted there.
+// Separate generations rarely agree on exposure, which shows more than a content seam.
+const matchTone = (
+  target: CanvasRenderingContext2D,
+  tileCtx: CanvasRenderingContext2D,
+  tile: TerrainTile,
+  overlapLeft: number,
+  overlapTop: number
+) => {
+  const strips: Rect[] = []
+  if (overlapLeft > 0) strips.push([0, 0, overlapLeft, tile.height])
+  if (overlapTop > 0) strips.push([overlapLeft, 0, tile.width - overlapLeft, overlapTop])
+  if (strips.length === 0) return
+
+  const painted = sumColors(target, strips.map(([x, y, width, height]) => [tile.x + x, tile.y + y, width, height]))
+  const own = sumColors(tileCtx, strips)
+  const gains = own.map((value, channel) =>
+    value > 0 ? Math.min(MAX_GAIN, Math.max(MIN_GAIN, painted[channel] / value)) : 1)
+
+  const image = tileCtx.getImageData(0, 0, tile.width, tile.height)
+  const { data } = image
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] *= gains[0]
+    data[i + 1] *= gains[1]
+    data[i + 2] *= gains[2]
+  }
+  tileCtx.putImageData(image, 0, 0)
+}
+
+// Fade the tile in across its overlaps so seams become gradients
+const feather = (tileCtx: CanvasRenderingContext2D, tile: TerrainTile, overlapLeft: number, overlapTop: number) => {
+  tileCtx.globalCompositeOperation = 'destination-in'
+  const fade = (x1: number, y1: number) => {
+    const gradient = tileCtx.createLinearGradient(0, 0, x1, y1)
+    gradient.addColorStop(0, 'rgba(0, 0, 0, 0)')
+    gradient.addColorStop(1, 'rgba(0, 0, 0, 1)')
+    tileCtx.fillStyle = gradient
+    tileCtx.fillRect(0, 0, tile.width, tile.height)
+  }
+  if (overlapLeft > 0) fade(overlapLeft, 0)
+  if (overlapTop > 0) fade(0, overlapTop)
+  tileCtx.globalCompositeOperation = 'source-over'
+}
+
+// Paint tiles row by row, each blended into the ones above and to its left
+export const stitchTerrainTiles = (settings: MapSettings, plan: TerrainTilePlan, images: HTMLImageElement[]) => {
+  const { canvas, ctx } = createTerrainCanvas(settings.width, settings.height)
+
+  plan.tiles.forEach((tile, index) => {
+    const left = plan.tiles.find(other => other.row === tile.row && other.column === tile.column - 1)
+    const above = plan.tiles.find(other => other.column === tile.column && other.row === tile.row - 1)
+    const overlapLeft = left ? left.x + left.width - tile.x : 0
+    const overlapTop = above ? above.y + above.height - tile.y : 0
+
+    const { canvas: tileCanvas, ctx: tileCtx } = createTerrainCanvas(tile.width, tile.height)
+    drawCover(tileCtx, images[index], tile.width, tile.height)
+    matchTone(ctx, tileCtx, tile, overlapLeft, overlapTop)
+    feather(tileCtx, tile, overlapLeft, overlapTop)
+    ctx.drawImage(tileCanvas, tile.x, tile.y)
+  })
+
+  return canvas
+}
+
+// Generate terrain covering the whole map at its own size, undistorted. Returns one image
+// per candidate; fewer than `count` when the model returns fewer images for a tile.
+export const generateTiledTerrain = async (settings: MapSettings, { prompt, count = 1, onProgress }: TiledTerrainOptions) => {
+  const plan = planTerrainTiles(settings)
+  let completed = 0
+  onProgress?.(completed, plan.tiles.length)
+
+  const tileImages = await mapWithConcurrency(plan.tiles, CONCURRENCY, async (tile, signal) => {
+    const { data } = await blink.ai.generateImage({
+      prompt: getTilePrompt(prompt, tile, plan),
+      size: `${tile.imageWidth}x${tile.imageHeight}`,
+      quality: 'high',
+      n: count,
+      signal
+    })
+    const urls = (data ?? []).map(image => image.url).filter((url): url is string => !!url)
+    if (urls.length === 0) throw new Error('No terrain image was generated')
+
+    const images = await Promise.all(urls.map(loadImage))
+    onProgress?.(++completed, plan.tiles.length)
+    return images
+  })
+
+  // Candidate k is stitched from the k-th image of every tile. One at a time, since each
+  // holds a full-size canvas.
+  const blobs: Blob[] = []
+  const candidates = Math.min(...tileImages.map(images => images.length))
+  for (let index = 0; index < candidates; index++) {
+    const images = tileImages.map(candidateImages => candidateImages[index])
+    blobs.push(await encodeTerrainCanvas(stitchTerrainTiles(settings, plan, images)))
+  }
+  return blobs
+}
+
+// Store a terrain image, or a part of one sent for editing, under the map's folder
+export const uploadTerrainImage = async (blob: Blob, folder: string, name: string) => {
+  const { publicUrl } = await blink.storage.upload(blob, `${folder}/${name}-${Date.now()}.jpg`)
+  return publicUrl
+}
@@ -0,0 +1,74 @@
+import type { Point } from './grid'
+import type { Rect } from './spatial-index'
+
+// Screen = (map + pan) * zoom, with screen coordinates in CSS pixels relative to the canvas
+export interface Viewport {
+  pan: Point
+  zoom: number
+}
+
+export interface Size {
+  width: number
+  height: number
+}
+
+export const MIN_ZOOM = 0.1
+export const MAX_ZOOM = 8
+
+// Multiplier for one press of the zoom buttons or keyboard shortcuts
+export const ZOOM_STEP = 1.25
+
+// Margin left around the map when zooming to fit, in CSS pixels
+const FIT_PADDING = 24
+
+// Zoom applied when focusing a single location, unless already closer
+const FOCUS_ZOOM = 2
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+
+export const screenToMap = (view: Viewport, point: Point): Point => ({
+  x: point.x / view.zoom - view.pan.x,
+  y: point.y / view.zoom - view.pan.y
+})
+
+// Pointer position relative to the canvas, in CSS pixels
+export const clientToCanvas = (canvas: HTMLCanvasElement, clientX: number, clientY: number): Point => {
+  const rect = canvas.getBoundingClientRect()
+  return { x: clientX - rect.left, y: clientY - rect.top }
+}
+
+// Zoom while keeping the map point under `anchor` (a screen point) in place
+export const zoomAround = (view: Viewport, zoom: number, anchor: Point): Viewport => {
+  const nextZoom = clampZoom(zoom)
+  const mapPoint = screenToMap(view, anchor)
+  return {
+    zoom: nextZoom,
+    pan: { x: anchor.x / nextZoom - mapPoint.x, y: anchor.y / nextZoom - mapPoint.y }
+  }
+}
+
+// Center a map-space rect in the canvas at the largest zoom that shows all of it
+export const fitRect = (rect: Rect, canvas: Size): Viewport => {
+  const availableWidth = Math.max(1, canvas.width - FIT_PADDING * 2)
+  const availableHeight = Math.max(1, canvas.height - FIT_PADDING * 2)
+  const zoom = clampZoom(Math.min(
+    availableWidth / Math.max(1, rect.width),
+    availableHeight / Math.max(1, rect.height)
+  ))
+  return {
+    zoom,
+    pan: {
+      x: canvas.width / zoom / 2 - (rect.x + rect.width / 2),
+      y: canvas.height / zoom / 2 - (rect.y + rect.height / 2)
+    }
+  }
+}
+
+// Center a map point, zooming in to a comfortable level unless already closer
+export const focusPoint = (point: Point, canvas: Size, current: Viewport): Viewport => {
+  const zoom = clampZoom(Math.max(current.zoom, FOCUS_ZOOM))
+  return {
+    zoom,
+    pan: { x: canvas.width / zoom / 2 - point.x, y: canvas.height / zoom / 2 - point.y }
+  }
+}
@@ -0,0 +1,10 @@
+// Escape text for use in XML content and attribute values
+export const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    // Parsers fold raw line breaks in attributes into spaces
+    .replace(/\n/g, '&#10;')
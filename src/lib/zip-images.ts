@@ -0,0 +1,51 @@
+import type JSZip from 'jszip'
+import { fetchImage } from './image-utils'
+
+export const imageExtensions: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/svg+xml': 'svg'
+}
+
+export const imageTypes = Object.fromEntries(Object.entries(imageExtensions).map(([type, ext]) => [ext, type]))
+
+// Anything with a scheme (https:, data:, blob:) or protocol-relative is not an archive path
+export const isArchivePath = (url: string) => !/^(?:[a-z][a-z0-9+.-]*:|\/\/)/i.test(url)
+
+export const toEntryName = (id: string) => id.replace(/[^A-Za-z0-9_-]/g, '_')
+
+export interface ZipImageWriter {
+  // Resolves to the entry path, or the original URL when the download failed
+  add: (url: string, path: string, label: string) => Promise<string>
+  // Labels of images that could not be downloaded
+  missing: string[]
+}
+
+// Download images into a ZIP under `path` plus an extension matching their type.
+// Locations often share an icon, so each URL is downloaded and stored once.
+export const createZipImageWriter = (zip: JSZip): ZipImageWriter => {
+  const missing: string[] = []
+  const written = new Map<string, Promise<string>>()
+
+  const add = (url: string, path: string, label: string) => {
+    if (!written.has(url)) {
+      written.set(url, (async () => {
+        try {
+          const blob = await fetchImage(url)
+          const entry = `${path}.${imageExtensions[blob.type] || 'png'}`
+          zip.file(entry, blob)
+          return entry
+        } catch (error) {
+          console.error('Error bundling image:', error)
+          missing.push(label)
+          return url
+        }
+      })())
+    }
+    return written.get(url)!
+  }
+
+  return { add, missing }
+}
@@ -0,0 +1,101 @@
+export interface MapLocation {
+  id: string
+  type: 'mission' | 'landmark' | 'shop' | 'npc' | 'resource'
+  name: string
+  description: string
+  x: number
+  y: number
+  iconUrl?: string
+  properties: Record<string, any>
+  visible: boolean
+}
+
+// Flat-top hexes have a flat edge at the top; pointy-top hexes have a corner there
+export type GridType = 'square' | 'hex-flat' | 'hex-pointy' | 'isometric'
+
+// Islands are ringed by sea; continents run off the edges of the map
+export type LandShape = 'island' | 'continent'
+
+// Pseudo-geographic extent the map's pixel space is stretched over, in degrees
+export interface GeoBounds {
+  west: number
+  south: number
+  east: number
+  north: number
+}
+
+export interface MapSettings {
+  width: number
+  height: number
+  // Square side, hex width across the flats, or isometric diamond height
+  gridSize: number
+  gridType: GridType
+  showGrid: boolean
+  backgroundColor: string
+  terrainType: 'fantasy' | 'modern' | 'sci-fi' | 'medieval'
+  biome: 'forest' | 'desert' | 'mountain' | 'ocean' | 'urban' | 'space'
+  // Drives the procedural terrain shown while the map has no terrain image
+  seed: number
+  // Share of the map under water, from 0 to 1, before the biome adjusts it
+  seaLevel: number
+  // How much of the land is raised into mountain ranges, from 0 to 1
+  mountainFrequency: number
+  landShape: LandShape
+  // Rounds of thermal erosion that wear down steep slopes
+  erosionPasses: number
+  // Bounds last used for a GeoJSON export or import
+  geoBounds?: GeoBounds
+}
+
+export type LocationTypeDistribution = Record<MapLocation['type'], number>
+
+// A terrain image the map has used, or a generated candidate kept as a favorite
+export interface TerrainHistoryEntry {
+  id: string
+  url: string
+  // How the image was made, e.g. "Generate terrain"
+  label: string
+  favorite: boolean
+  createdAt: string
+}
+
+// A saved map as the dashboard works with it
+export interface MapDocument {
+  id: string
+  userId: string
+  name: string
+  description: string
+  settings: MapSettings
+  locations: MapLocation[]
+  terrainImageUrl: string | null
+  // Newest first
+  terrainHistory: TerrainHistoryEntry[]
+  locationTypeDistribution: LocationTypeDistribution
+  thumbnail: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export const defaultMapSettings: MapSettings = {
+  width: 1200,
+  height: 800,
+  gridSize: 40,
+  gridType: 'square',
+  showGrid: true,
+  backgroundColor: '#f8fafc',
+  terrainType: 'fantasy',
+  biome: 'forest',
+  seed: 1,
+  seaLevel: 0.35,
+  mountainFrequency: 0.4,
+  landShape: 'continent',
+  erosionPasses: 4
+}
+
+export const defaultLocationTypeDistribution: LocationTypeDistribution = {
+  mission: 20,
+  landmark: 30,
+  shop: 25,
+  npc: 15,
+  resource: 10
+}
@@ -0,0 +1,35 @@
+import { paintMap } from '../lib/map-renderer'
+import type { RenderImageRequest, RenderImageResponse } from '../lib/export-image'
+
+// Renders export images off the main thread so large maps keep the UI responsive
+self.addEventListener('message', async (event: MessageEvent<RenderImageRequest>) => {
+  const { settings, locations, terrain, icons, options } = event.data
+
+  try {
+    const canvas = new OffscreenCanvas(
+      Math.round(settings.width * options.scale),
+      Math.round(settings.height * options.scale)
+    )
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Offscreen canvas is not supported')
+
+    ctx.scale(options.scale, options.scale)
+    paintMap(ctx, {
+      settings,
+      locations,
+      terrain,
+      icons: new Map(Object.entries(icons)),
+      showGrid: options.includeGrid,
+      showLabels: options.includeLabels,
+      showHidden: options.includeHidden
+    })
+
+    const blob = await canvas.convertToBlob({ type: options.format, quality: options.quality })
+    self.postMessage({ blob } satisfies RenderImageResponse)
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : String(error) } satisfies RenderImageResponse)
+  } finally {
+    terrain?.close()
+    Object.values(icons).forEach(icon => icon.close())
+  }
+})
@@ -0,0 +1,27 @@
+import {
+  paintTerrain,
+  TERRAIN_IMAGE_QUALITY,
+  TERRAIN_IMAGE_TYPE,
+  type GenerateTerrainRequest,
+  type GenerateTerrainResponse
+} from '../lib/terrain-generator'
+
+// Generates full-size terrain off the main thread; large maps take a few seconds
+self.addEventListener('message', async (event: MessageEvent<GenerateTerrainRequest>) => {
+  const { settings } = event.data
+
+  try {
+    const canvas = new OffscreenCanvas(settings.width, settings.height)
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Offscreen canvas is not supported')
+
+    const image = ctx.createImageData(settings.width, settings.height)
+    paintTerrain(image, settings)
+    ctx.putImageData(image, 0, 0)
+
+    const blob = await canvas.convertToBlob({ type: TERRAIN_IMAGE_TYPE, quality: TERRAIN_IMAGE_QUALITY })
+    self.postMessage({ blob } satisfies GenerateTerrainResponse)
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : String(error) } satisfies GenerateTerrainResponse)
+  }
+})